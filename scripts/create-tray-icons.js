@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+const path = require('path');
+const sharp = require('sharp');
+
+// Generates the tray icon variants (idle, unread, error, offline) from the app icon.
+// Each variant is written at 1x and @2x so Electron picks the right one for the display.
+
+const SOURCE = path.join(__dirname, '../src/renderer/assets/icon.png');
+const OUTPUT_DIR = path.join(__dirname, '../src/renderer/public/tray');
+const BASE_SIZE = 22;
+
+const badge = (size, fill, glyph = '') => {
+  const r = size * 0.22;
+  const cx = size - r - 0.5;
+  const cy = r + 0.5;
+  const text = glyph
+    ? `<text x="${cx}" y="${cy + r * 0.55}" font-family="Helvetica, Arial, sans-serif" font-weight="bold" font-size="${r * 1.6}" text-anchor="middle" fill="#ffffff">${glyph}</text>`
+    : '';
+  return Buffer.from(
+    `<svg width="${size}" height="${size}" xmlns="http://www.w3.org/2000/svg">` +
+    `<circle cx="${cx}" cy="${cy}" r="${r}" fill="${fill}" stroke="#ffffff" stroke-width="${size / 22}"/>` +
+    text +
+    `</svg>`
+  );
+};
+
+const variants = {
+  idle: (image) => image,
+  unread: (image, size) => image.composite([{ input: badge(size, '#f97316') }]),
+  error: (image, size) => image.composite([{ input: badge(size, '#dc2626', '!') }]),
+  offline: (image) => image
+};
+
+async function render(name, scale) {
+  const size = BASE_SIZE * scale;
+  const resized = await sharp(SOURCE)
+    .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .png()
+    .toBuffer();
+
+  let image = variants[name](sharp(resized), size);
+
+  if (name === 'offline') {
+    // Desaturate and dim the whole icon, keeping its transparency
+    const { data, info } = await image.ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    for (let i = 0; i < data.length; i += 4) {
+      const luminance = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+      data[i] = data[i + 1] = data[i + 2] = luminance;
+      data[i + 3] = Math.round(data[i + 3] * 0.45);
+    }
+    image = sharp(data, { raw: info });
+  }
+
+  const suffix = scale === 1 ? '' : `@${scale}x`;
+  const output = path.join(OUTPUT_DIR, `tray-${name}${suffix}.png`);
+  await image.png().toFile(output);
+  console.log('✅ Created', path.relative(process.cwd(), output));
+}
+
+(async () => {
+  for (const name of Object.keys(variants)) {
+    await render(name, 1);
+    await render(name, 2);
+  }
+})().catch((error) => {
+  console.error('❌ Failed to create tray icons:', error);
+  process.exit(1);
+});
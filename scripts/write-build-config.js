@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+
+const fs = require('fs');
+const path = require('path');
+
+// Bakes settings that differ between builds into dist/build-config.json, next to the compiled
+// main process. Release builds set OCTOBAR_OAUTH_CLIENT_ID so packaged apps offer
+// "Sign in with GitHub" without any environment of their own.
+
+const OUTPUT = path.join(__dirname, '../dist/build-config.json');
+
+const config = {
+  oauthClientId: process.env.OCTOBAR_OAUTH_CLIENT_ID || ''
+};
+
+fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+fs.writeFileSync(OUTPUT, JSON.stringify(config, null, 2));
+console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)} (OAuth client ID ${config.oauthClientId ? 'set' : 'not set'})`);
@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { normalizeHost } from './githubHosts';
+import { log } from './log';
+
+/**
+ * Read the client ID baked in by scripts/write-build-config.js when the app was built
+ */
+function getBuiltInClientId(): string {
+  try {
+    const config = JSON.parse(fs.readFileSync(path.join(__dirname, 'build-config.json'), 'utf8'));
+    return typeof config.oauthClientId === 'string' ? config.oauthClientId : '';
+  } catch {
+    return '';
+  }
+}
+
+// Client ID of the OctoBar OAuth app, from the build unless OCTOBAR_OAUTH_CLIENT_ID overrides it
+// at runtime. Device flow sign-in is hidden when neither is set.
+const OAUTH_CLIENT_ID = process.env.OCTOBAR_OAUTH_CLIENT_ID || getBuiltInClientId();
+
+// Scopes matching what a classic PAT needs: notifications, private repositories and org membership
+const OAUTH_SCOPES = 'notifications repo read:org';
+
+// GitHub asks clients to back off by this many seconds on a slow_down response
+const SLOW_DOWN_SECONDS = 5;
+
+export interface DeviceCodeInfo {
+  userCode: string;
+  verificationUri: string;
+  expiresAt: string;
+  interval: number;
+}
+
+export type DeviceFlowErrorCode = 'unavailable' | 'expired' | 'denied' | 'cancelled' | 'failed';
+
+export class DeviceFlowError extends Error {
+  constructor(message: string, public code: DeviceFlowErrorCode) {
+    super(message);
+    this.name = 'DeviceFlowError';
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Check whether this build has an OAuth app to sign in with
+ */
+export function isDeviceFlowAvailable(): boolean {
+  return Boolean(OAUTH_CLIENT_ID);
+}
+
+/**
+ * Origin serving /login/device/code. OCTOBAR_OAUTH_BASE_URL points it at a stand-in server for testing.
+ */
+export function getOAuthBaseUrl(host: string | null | undefined): string {
+  return process.env.OCTOBAR_OAUTH_BASE_URL?.replace(/\/+$/, '') || normalizeHost(host);
+}
+
+/**
+ * One OAuth device authorization: request a user code, then poll until the user approves it
+ */
+export class DeviceFlow {
+  private deviceCode: string | null = null;
+  private interval = 5;
+  private expiresAt = 0;
+  private cancelled = false;
+
+  constructor(private baseUrl: string, private clientId: string = OAUTH_CLIENT_ID) {}
+
+  /**
+   * Ask GitHub for a device and user code
+   */
+  async start(): Promise<DeviceCodeInfo> {
+    if (!this.clientId) {
+      throw new DeviceFlowError('Sign in with GitHub is not configured for this build', 'unavailable');
+    }
+
+    const data = await this.post('/login/device/code', {
+      client_id: this.clientId,
+      scope: OAUTH_SCOPES
+    });
+
+    if (!data.device_code || !data.user_code) {
+      throw new DeviceFlowError(data.error_description || 'GitHub did not return a device code', 'failed');
+    }
+
+    this.deviceCode = data.device_code;
+    this.interval = data.interval || this.interval;
+    this.expiresAt = Date.now() + (data.expires_in || 900) * 1000;
+    log(`🔑 Device flow started, code expires in ${data.expires_in}s`);
+
+    return {
+      userCode: data.user_code,
+      verificationUri: data.verification_uri,
+      expiresAt: new Date(this.expiresAt).toISOString(),
+      interval: this.interval
+    };
+  }
+
+  /**
+   * Poll for the access token until the user approves, denies or the code expires
+   */
+  async waitForToken(): Promise<string> {
+    if (!this.deviceCode) {
+      throw new DeviceFlowError('Device flow has not been started', 'failed');
+    }
+
+    while (!this.cancelled) {
+      await sleep(this.interval * 1000);
+      if (this.cancelled) {
+        break;
+      }
+      if (Date.now() >= this.expiresAt) {
+        throw new DeviceFlowError('The sign-in code expired, please start again', 'expired');
+      }
+
+      const data = await this.post('/login/oauth/access_token', {
+        client_id: this.clientId,
+        device_code: this.deviceCode,
+        grant_type: 'urn:ietf:params:oauth:grant-type:device_code'
+      });
+
+      if (data.access_token) {
+        log('✅ Device flow authorized');
+        return data.access_token;
+      }
+
+      switch (data.error) {
+        case 'authorization_pending':
+          break;
+        case 'slow_down':
+          this.interval = data.interval || this.interval + SLOW_DOWN_SECONDS;
+          break;
+        case 'expired_token':
+          throw new DeviceFlowError('The sign-in code expired, please start again', 'expired');
+        case 'access_denied':
+          throw new DeviceFlowError('Sign-in was cancelled on GitHub', 'denied');
+        default:
+          throw new DeviceFlowError(data.error_description || `Sign-in failed: ${data.error || 'unknown error'}`, 'failed');
+      }
+    }
+
+    throw new DeviceFlowError('Sign-in was cancelled', 'cancelled');
+  }
+
+  /**
+   * Stop polling; a pending waitForToken rejects with 'cancelled'
+   */
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  private async post(path: string, params: Record<string, string>): Promise<any> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'User-Agent': 'OctoBar/1.0.0'
+        },
+        body: new URLSearchParams(params).toString()
+      });
+    } catch (error) {
+      throw new DeviceFlowError(`Could not reach ${this.baseUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'failed');
+    }
+
+    // Errors such as authorization_pending come back as 200 with an error field
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok && !data.error) {
+      throw new DeviceFlowError(`Sign-in request failed: ${response.status} ${response.statusText}`, 'failed');
+    }
+    return data;
+  }
+}
@@ -0,0 +1,50 @@
+// Hosts are stored as web origins: https://github.com, or a GitHub Enterprise Server origin
+// such as https://github.example.com whose REST API lives under /api/v3.
+
+export const DEFAULT_GITHUB_HOST = 'https://github.com';
+
+/**
+ * Turn user input like "github.example.com/" or "https://github.example.com/api/v3" into an origin
+ */
+export function normalizeHost(input: string | null | undefined): string {
+  const trimmed = (input || '').trim();
+  if (!trimmed) {
+    return DEFAULT_GITHUB_HOST;
+  }
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    // The API host for github.com is a different name for the same account
+    return url.hostname === 'api.github.com' ? DEFAULT_GITHUB_HOST : url.origin;
+  } catch {
+    return DEFAULT_GITHUB_HOST;
+  }
+}
+
+/**
+ * Check whether a host is github.com rather than a GitHub Enterprise Server instance
+ */
+export function isGitHubDotCom(host: string | null | undefined): boolean {
+  return normalizeHost(host) === DEFAULT_GITHUB_HOST;
+}
+
+/**
+ * Base URL for REST API calls
+ */
+export function getApiBaseUrl(host: string | null | undefined): string {
+  return isGitHubDotCom(host) ? 'https://api.github.com' : `${normalizeHost(host)}/api/v3`;
+}
+
+/**
+ * Endpoint for GraphQL queries, which GitHub Enterprise Server serves outside /api/v3
+ */
+export function getGraphqlUrl(host: string | null | undefined): string {
+  return isGitHubDotCom(host) ? 'https://api.github.com/graphql' : `${normalizeHost(host)}/api/graphql`;
+}
+
+/**
+ * Base URL for links opened in the browser
+ */
+export function getWebBaseUrl(host: string | null | undefined): string {
+  return normalizeHost(host);
+}
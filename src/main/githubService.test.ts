@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GitHubService } from './githubService';
+
+const API = 'https://api.github.com/repos/octo/app';
+
+function notification(type: string, url: string | null, latestCommentUrl: string | null = url): any {
+  return {
+    id: '1',
+    repository: { full_name: 'octo/app' },
+    subject: { type, title: 'Subject', url, latest_comment_url: latestCommentUrl }
+  };
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('GitHubService.resolveNotificationUrl', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('looks up the html_url of subjects that cannot be derived', async () => {
+    const service = new GitHubService('token');
+    const send = vi.spyOn(service as any, 'send').mockResolvedValue(json({ html_url: 'https://github.com/octo/app/releases/tag/v1.0.0' }));
+
+    await expect(service.resolveNotificationUrl(notification('Release', `${API}/releases/987654`)))
+      .resolves.toBe('https://github.com/octo/app/releases/tag/v1.0.0');
+    expect(send).toHaveBeenCalledWith(`${API}/releases/987654`, { method: 'GET' });
+  });
+
+  it('appends the latest comment anchor to the looked up URL', async () => {
+    const service = new GitHubService('token');
+    vi.spyOn(service as any, 'send').mockResolvedValue(json({ html_url: 'https://github.com/octo/app/security/advisories/GHSA-xxxx' }));
+
+    await expect(service.resolveNotificationUrl(
+      notification('RepositoryAdvisory', `${API}/security-advisories/GHSA-xxxx`, `${API}/issues/comments/777`)
+    )).resolves.toBe('https://github.com/octo/app/security/advisories/GHSA-xxxx#issuecomment-777');
+  });
+
+  it('derives the URL locally when the lookup fails', async () => {
+    const service = new GitHubService('token');
+    vi.spyOn(service as any, 'send').mockResolvedValue(json({ message: 'Not Found' }, 404));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(service.resolveNotificationUrl(notification('Release', `${API}/releases/987654`)))
+      .resolves.toBe('https://github.com/octo/app/releases');
+  });
+
+  it('derives the URL locally when the response has no html_url', async () => {
+    const service = new GitHubService('token');
+    vi.spyOn(service as any, 'send').mockResolvedValue(json({}));
+
+    await expect(service.resolveNotificationUrl(notification('Release', `${API}/releases/987654`)))
+      .resolves.toBe('https://github.com/octo/app/releases');
+  });
+
+  it('does not call the API for subjects that can be derived', async () => {
+    const service = new GitHubService('token');
+    const send = vi.spyOn(service as any, 'send');
+
+    await expect(service.resolveNotificationUrl(notification('Discussion', `${API}/discussions/56`, `${API}/discussions/56/comments/789`)))
+      .resolves.toBe('https://github.com/octo/app/discussions/56#discussioncomment-789');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('does not call the API without a token', async () => {
+    const service = new GitHubService();
+    const send = vi.spyOn(service as any, 'send');
+
+    await expect(service.resolveNotificationUrl(notification('Release', `${API}/releases/987654`)))
+      .resolves.toBe('https://github.com/octo/app/releases');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('derives the URL on the service host', async () => {
+    const service = new GitHubService(undefined, 'github.example.com');
+
+    await expect(service.resolveNotificationUrl(notification('WorkflowRun', null)))
+      .resolves.toBe('https://github.example.com/octo/app/actions');
+  });
+});
+
+describe('GitHubService.markRepositoryThreadsAsRead', () => {
+  const lastReadAt = '2026-01-10T12:00:00Z';
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('marks the whole repository when every unread thread up to last_read_at is shown', async () => {
+    const service = new GitHubService('token');
+    const send = vi.spyOn(service as any, 'send')
+      .mockResolvedValueOnce(json([
+        { id: '1', updated_at: '2026-01-10T12:00:00Z' },
+        { id: '2', updated_at: '2026-01-09T12:00:00Z' },
+        { id: '3', updated_at: '2026-01-11T12:00:00Z' }
+      ]))
+      .mockResolvedValueOnce(new Response(null, { status: 205 }));
+
+    await service.markRepositoryThreadsAsRead('octo/app', ['1', '2'], lastReadAt);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send).toHaveBeenLastCalledWith('/repos/octo/app/notifications', expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify({ last_read_at: lastReadAt })
+    }));
+  });
+
+  it('marks each shown thread when an older unread thread is not shown', async () => {
+    const service = new GitHubService('token');
+    const send = vi.spyOn(service as any, 'send')
+      .mockResolvedValueOnce(json([
+        { id: '1', updated_at: '2026-01-10T12:00:00Z' },
+        { id: '2', updated_at: '2026-01-09T12:00:00Z' },
+        { id: '4', updated_at: '2025-12-01T12:00:00Z' }
+      ]))
+      .mockResolvedValue(new Response(null, { status: 205 }));
+
+    await service.markRepositoryThreadsAsRead('octo/app', ['1', '2'], lastReadAt);
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(send).toHaveBeenCalledWith('/notifications/threads/1', { method: 'PATCH' });
+    expect(send).toHaveBeenCalledWith('/notifications/threads/2', { method: 'PATCH' });
+    expect(send).not.toHaveBeenCalledWith('/repos/octo/app/notifications', expect.objectContaining({ method: 'PUT' }));
+  });
+
+  it('marks a single thread directly', async () => {
+    const service = new GitHubService('token');
+    const send = vi.spyOn(service as any, 'send').mockResolvedValue(new Response(null, { status: 205 }));
+
+    await service.markRepositoryThreadsAsRead('octo/app', ['1'], lastReadAt);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith('/notifications/threads/1', { method: 'PATCH' });
+  });
+});
@@ -0,0 +1,1290 @@
+import { buildNotificationUrl, getCommentAnchor, needsHtmlUrlLookup } from './notificationUrls';
+import { DEFAULT_GITHUB_HOST, normalizeHost, getApiBaseUrl, getGraphqlUrl, getWebBaseUrl } from './githubHosts';
+import { getSubjectTypeInfo, getReasonInfo } from './notificationCatalog';
+import { log } from './log';
+
+interface GitHubUser {
+  id: number;
+  login: string;
+  name: string;
+  email: string;
+  avatar_url: string;
+}
+
+// Repositories and organizations as listed for the filter settings
+export interface GitHubRepository {
+  id: number;
+  name: string;
+  full_name: string;
+  private: boolean;
+  description: string;
+  html_url: string;
+  updated_at: string;
+  owner: {
+    login: string;
+    avatar_url: string;
+  };
+}
+
+export interface GitHubOrganization {
+  id: number;
+  login: string;
+  name: string;
+  avatar_url: string;
+  description: string;
+}
+
+export interface NotificationQueryParams {
+  all?: boolean;
+  participating?: boolean;
+  since?: string;
+  before?: string;
+  per_page?: number;
+  page?: number;
+  // Custom filter parameters
+  filterOrgs?: string[];
+  filterRepos?: string[];
+  filterSubjectTypes?: string[];
+  filterReasons?: string[];
+  // Pagination control
+  maxPages?: number;
+}
+
+export interface NotificationFetchResult {
+  notifications: any[];
+  // True when GitHub answered 304 and the cached inbox was reused
+  notModified: boolean;
+  // Minimum seconds between polls requested via X-Poll-Interval
+  pollInterval: number | null;
+  // True when the page cap was hit while GitHub still had more pages
+  truncated: boolean;
+}
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  // ISO timestamp of when the budget resets
+  resetAt: string;
+}
+
+// Live state of an issue or pull request behind a notification, resolved via GraphQL
+export interface SubjectDetails {
+  state: 'open' | 'closed' | 'merged';
+  isDraft: boolean;
+  // Only set for pull requests
+  reviewDecision: 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | null;
+  author: string | null;
+  commentCount: number;
+  // Combined CI status of the head commit, only for pull requests with checks
+  checks: CheckStatus | null;
+}
+
+export interface CheckStatus {
+  state: 'success' | 'failure' | 'pending';
+  // First failing check run or status, for click-through
+  failingName: string | null;
+  failingUrl: string | null;
+}
+
+// classic = ghp_, fine-grained = github_pat_, oauth = gho_ from Sign in with GitHub
+export type TokenKind = 'classic' | 'fine-grained' | 'oauth' | 'unknown';
+
+export type TokenCapabilityId = 'notifications' | 'repositories' | 'organizations' | 'graphql';
+
+// One feature OctoBar needs, and whether a probe request showed the token can use it
+export interface TokenCapability {
+  id: TokenCapabilityId;
+  label: string;
+  // What stops working without it
+  feature: string;
+  available: boolean;
+  required: boolean;
+}
+
+export interface TokenValidationResult {
+  valid: boolean;
+  user?: GitHubUser;
+  error?: string;
+  hasNotificationsAccess?: boolean;
+  // ISO timestamp, or null for tokens without an expiry
+  expiresAt?: string | null;
+  // Only classic and OAuth tokens report scopes
+  scopes?: string[];
+  tokenKind?: TokenKind;
+  capabilities?: TokenCapability[];
+  // Set when an organization requires the token to be authorized for SAML SSO
+  ssoAuthorizationUrl?: string;
+}
+
+// Organization hiding its data from this token until it is authorized for SAML SSO
+export interface SsoBlockedOrganization {
+  // Null when only the authorization URL is known
+  id: number | null;
+  login: string | null;
+  authorizationUrl: string;
+}
+
+interface SubjectReference {
+  id: string;
+  updatedAt: string;
+  owner: string;
+  name: string;
+  number: number;
+  isPullRequest: boolean;
+}
+
+/**
+ * Error thrown for non-OK GitHub API responses, keeping the HTTP status for callers
+ */
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public rateLimited = false,
+    public rateLimit: RateLimitInfo | null = null,
+    // Where to authorize the token when an organization enforces SAML SSO
+    public ssoUrl: string | null = null
+  ) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
+// Retry tuning for secondary rate limits and transient server errors
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+// Don't hold a request open longer than this waiting for a rate limit window to reset
+const MAX_RETRY_WAIT_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Page cap for list endpoints when the caller doesn't set one
+const DEFAULT_MAX_PAGES = 10;
+
+// Check run conclusions and status states that count as a failure
+const FAILED_CHECK_STATES = ['FAILURE', 'ERROR', 'TIMED_OUT', 'CANCELLED', 'ACTION_REQUIRED', 'STARTUP_FAILURE'];
+
+// Subjects resolved per GraphQL query, keeping each query well inside GitHub's node limits
+const GRAPHQL_BATCH_SIZE = 50;
+
+// Status check rollup of a pull request's head commit, with enough context to link to a failure
+const CHECKS_SELECTION = `commits(last: 1) { nodes { commit { statusCheckRollup { state contexts(first: 50) { nodes {
+  __typename
+  ... on CheckRun { name conclusion detailsUrl }
+  ... on StatusContext { context state targetUrl }
+} } } } } }`;
+
+/**
+ * Parse Retry-After into milliseconds. It is either a number of seconds or an HTTP date;
+ * null when it is neither.
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header || !header.trim()) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : date - Date.now();
+}
+
+/**
+ * Parse X-GitHub-SSO, either "required; url=<authorization url>" on a 403 or
+ * "partial-results; organizations=21955855,20582480" on a list missing those organizations
+ */
+function parseSsoHeader(header: string | null): { url: string | null; organizationIds: number[] } | null {
+  if (!header) {
+    return null;
+  }
+
+  const url = header.match(/url=(\S+)/)?.[1] ?? null;
+  const organizationIds = (header.match(/organizations=([\d,]+)/)?.[1] ?? '')
+    .split(',')
+    .filter(Boolean)
+    .map(id => parseInt(id, 10));
+  return { url, organizationIds };
+}
+
+/**
+ * Get the organization login from an SSO authorization URL such as https://github.com/orgs/acme/sso?...
+ */
+function getSsoOrganizationLogin(url: string): string | null {
+  return url.match(/\/orgs\/([^/]+)\/sso/)?.[1] ?? null;
+}
+
+export class GitHubService {
+  private host: string;
+  private baseUrl: string;
+  private token: string | null = null;
+  private pollInterval: number | null = null;
+  private rateLimit: RateLimitInfo | null = null;
+  // undefined until the first response; null when GitHub reports no expiry for the token
+  private tokenExpiresAt: string | null | undefined = undefined;
+  private notificationsCache: {
+    key: string;
+    etag: string | null;
+    lastModified: string | null;
+    notifications: any[];
+    truncated: boolean;
+  } | null = null;
+  private subjectDetailsCache = new Map<string, { updatedAt: string; details: SubjectDetails }>();
+  // Organizations that left results out of a list response because of SAML SSO
+  private ssoPartialOrganizationIds = new Set<number>();
+  // Authorization URLs from requests an organization refused, keyed by URL
+  private ssoRequiredUrls = new Set<string>();
+
+  constructor(token?: string, host: string = DEFAULT_GITHUB_HOST) {
+    if (token) {
+      this.token = token;
+    }
+    this.host = normalizeHost(host);
+    this.baseUrl = getApiBaseUrl(this.host);
+  }
+
+  /**
+   * Get the web origin of the GitHub instance this service talks to
+   */
+  getHost(): string {
+    return this.host;
+  }
+
+  /**
+   * Set the GitHub token for API calls
+   */
+  setToken(token: string): void {
+    this.token = token;
+    this.notificationsCache = null;
+    this.subjectDetailsCache.clear();
+  }
+
+  /**
+   * Get the authorization headers for API calls
+   */
+  private getHeaders(): HeadersInit {
+    const headers: HeadersInit = {
+      'Accept': 'application/vnd.github.v3+json',
+      'User-Agent': 'OctoBar/1.0.0'
+    };
+
+    if (this.token) {
+      headers['Authorization'] = `token ${this.token}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Get the most recent rate limit budget reported by GitHub
+   */
+  getRateLimit(): RateLimitInfo | null {
+    return this.rateLimit;
+  }
+
+  /**
+   * Send a request through the shared pipeline: tracks the rate limit budget and retries
+   * secondary rate limits (403/429) and server errors with backoff. Returns the final response.
+   */
+  private async send(url: string, init: RequestInit = {}): Promise<Response> {
+    const fullUrl = url.startsWith('http') ? url : `${this.baseUrl}${url}`;
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(fullUrl, {
+        ...init,
+        headers: {
+          ...(this.getHeaders() as Record<string, string>),
+          ...(init.headers as Record<string, string> | undefined)
+        }
+      });
+      this.updateRateLimit(response.headers);
+      if (response.status !== 401) {
+        this.updateTokenExpiration(response.headers);
+      }
+      this.trackSso(response);
+
+      if (response.ok || response.status === 304 || attempt >= MAX_RETRIES) {
+        return response;
+      }
+
+      const retryDelay = await this.getRetryDelay(response, attempt);
+      if (retryDelay === null) {
+        return response;
+      }
+
+      log(`⏳ ${init.method || 'GET'} ${fullUrl} returned ${response.status}, retrying in ${Math.round(retryDelay / 1000)}s (attempt ${attempt + 1}/${MAX_RETRIES})`);
+      await sleep(retryDelay);
+    }
+  }
+
+  /**
+   * Send a request and throw a GitHubApiError describing the failure if it isn't OK
+   */
+  private async request(url: string, init: RequestInit, errorContext: string): Promise<Response> {
+    const response = await this.send(url, init);
+    if (!response.ok && response.status !== 304) {
+      throw await this.createError(response, errorContext);
+    }
+    return response;
+  }
+
+  /**
+   * Remember organizations that are hiding data until the token is authorized for SAML SSO
+   */
+  private trackSso(response: Response): void {
+    const sso = parseSsoHeader(response.headers.get('X-GitHub-SSO'));
+    if (!sso) {
+      return;
+    }
+
+    sso.organizationIds.forEach(id => this.ssoPartialOrganizationIds.add(id));
+    if (sso.url && response.status === 403) {
+      this.ssoRequiredUrls.add(sso.url);
+    }
+  }
+
+  /**
+   * Forget the organizations seen so far, e.g. before listing them again after the user has
+   * authorized the token, so only organizations that still refuse are reported
+   */
+  resetSsoTracking(): void {
+    this.ssoPartialOrganizationIds.clear();
+    this.ssoRequiredUrls.clear();
+  }
+
+  /**
+   * List the organizations that need SAML SSO authorization, from every response since the last reset.
+   * Partial results only carry organization IDs, so those are looked up to get a login.
+   */
+  async getSsoBlockedOrganizations(): Promise<SsoBlockedOrganization[]> {
+    const webBaseUrl = getWebBaseUrl(this.host);
+    const blocked: SsoBlockedOrganization[] = Array.from(this.ssoRequiredUrls).map(url => ({
+      id: null,
+      login: getSsoOrganizationLogin(url),
+      authorizationUrl: url
+    }));
+
+    for (const id of Array.from(this.ssoPartialOrganizationIds)) {
+      let login: string | null = null;
+      let authorizationUrl: string | null = null;
+      try {
+        const response = await this.request(`/organizations/${id}`, { method: 'GET' }, 'Failed to look up organization');
+        login = (await response.json()).login ?? null;
+      } catch (error) {
+        // The lookup itself can be refused, which hands us the authorization URL instead
+        if (error instanceof GitHubApiError && error.ssoUrl) {
+          authorizationUrl = error.ssoUrl;
+          login = getSsoOrganizationLogin(error.ssoUrl);
+        } else {
+          log(`⚠️ Could not look up SSO organization ${id}:`, error);
+        }
+      }
+
+      const existing = login ? blocked.find(org => org.login === login) : undefined;
+      if (existing) {
+        existing.id = id;
+        continue;
+      }
+      blocked.push({
+        id,
+        login,
+        authorizationUrl: authorizationUrl ?? (login ? `${webBaseUrl}/orgs/${login}/sso` : `${webBaseUrl}/settings/tokens`)
+      });
+    }
+
+    return blocked;
+  }
+
+  /**
+   * Track when the token expires, e.g. "2024-05-01 12:00:00 UTC". Not every endpoint sends the
+   * header, so a response without it leaves the known expiry alone.
+   */
+  private updateTokenExpiration(headers: Headers): void {
+    const expiration = headers.get('github-authentication-token-expiration');
+    if (!expiration) {
+      return;
+    }
+
+    const parsed = new Date(expiration.replace(' UTC', 'Z').replace(' ', 'T'));
+    if (!isNaN(parsed.getTime())) {
+      this.tokenExpiresAt = parsed.toISOString();
+    }
+  }
+
+  /**
+   * A successful /user response always carries the expiration header for an expiring token,
+   * so one without it means the token never expires
+   */
+  private confirmTokenExpiration(response: Response): void {
+    if (response.ok && !response.headers.get('github-authentication-token-expiration')) {
+      this.tokenExpiresAt = null;
+    }
+  }
+
+  /**
+   * Get when the token expires: an ISO timestamp, null if it never does, or undefined before any request
+   */
+  getTokenExpiration(): string | null | undefined {
+    return this.tokenExpiresAt;
+  }
+
+  private updateRateLimit(headers: Headers): void {
+    const limit = headers.get('X-RateLimit-Limit');
+    const remaining = headers.get('X-RateLimit-Remaining');
+    const reset = headers.get('X-RateLimit-Reset');
+    if (limit === null || remaining === null || reset === null) {
+      return;
+    }
+
+    // GraphQL has its own budget; the tracked one is the REST budget that polling spends
+    const resource = headers.get('X-RateLimit-Resource');
+    if (resource && resource !== 'core') {
+      return;
+    }
+
+    this.rateLimit = {
+      limit: parseInt(limit, 10),
+      remaining: parseInt(remaining, 10),
+      resetAt: new Date(parseInt(reset, 10) * 1000).toISOString()
+    };
+  }
+
+  private async isRateLimitResponse(response: Response): Promise<boolean> {
+    if (response.status === 429) {
+      return true;
+    }
+    if (response.status !== 403) {
+      return false;
+    }
+    if (response.headers.get('Retry-After') || response.headers.get('X-RateLimit-Remaining') === '0') {
+      return true;
+    }
+
+    // Secondary rate limits are only identifiable from the message body
+    const body = await response.clone().text().catch(() => '');
+    return /rate limit/i.test(body);
+  }
+
+  /**
+   * Work out how long to wait before retrying, or null when the request should not be retried
+   */
+  private async getRetryDelay(response: Response, attempt: number): Promise<number | null> {
+    const isServerError = response.status >= 500;
+    if (!isServerError && !(await this.isRateLimitResponse(response))) {
+      return null;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    let delay: number;
+    if (retryAfter !== null) {
+      delay = retryAfter;
+    } else if (response.headers.get('X-RateLimit-Remaining') === '0' && this.rateLimit) {
+      delay = new Date(this.rateLimit.resetAt).getTime() - Date.now();
+    } else {
+      // Exponential backoff with jitter so parallel callers don't retry in lockstep
+      delay = BASE_RETRY_DELAY_MS * Math.pow(2, attempt) + Math.random() * BASE_RETRY_DELAY_MS;
+    }
+
+    return delay > MAX_RETRY_WAIT_MS ? null : Math.max(delay, 0);
+  }
+
+  private async createError(response: Response, errorContext: string): Promise<GitHubApiError> {
+    const rateLimited = await this.isRateLimitResponse(response);
+    if (rateLimited) {
+      const resetAt = this.rateLimit ? new Date(this.rateLimit.resetAt).toLocaleTimeString() : 'later';
+      return new GitHubApiError(
+        `${errorContext}: GitHub API rate limit exceeded, try again after ${resetAt}`,
+        response.status,
+        true,
+        this.rateLimit
+      );
+    }
+
+    const sso = parseSsoHeader(response.headers.get('X-GitHub-SSO'));
+    if (response.status === 403 && sso?.url) {
+      const login = getSsoOrganizationLogin(sso.url);
+      return new GitHubApiError(
+        `${errorContext}: ${login ? `the ${login} organization` : 'an organization'} requires SAML SSO authorization for this token`,
+        response.status,
+        false,
+        this.rateLimit,
+        sso.url
+      );
+    }
+
+    const errorData = await response.json().catch(() => ({}));
+    const detail = errorData.message ? ` - ${errorData.message}` : '';
+    return new GitHubApiError(
+      `${errorContext}: ${response.status} ${response.statusText}${detail}`,
+      response.status,
+      false,
+      this.rateLimit
+    );
+  }
+
+  /**
+   * Validate a token against this service's host. Fine-grained tokens don't report scopes, so
+   * instead of trusting x-oauth-scopes every capability OctoBar needs is probed directly.
+   */
+  async validateToken(token: string): Promise<TokenValidationResult> {
+    const tokenKind = GitHubService.getTokenKind(token);
+
+    try {
+      // Set the token temporarily for this validation
+      const tempService = new GitHubService(token, this.host);
+      
+      // Make a test API call to get the authenticated user
+      const response = await tempService.send('/user', { method: 'GET' });
+
+      if (response.status === 401) {
+        return { valid: false, tokenKind, error: 'Invalid token - authentication failed' };
+      }
+
+      if (response.status === 403) {
+        if (await tempService.isRateLimitResponse(response)) {
+          return { valid: false, tokenKind, error: 'GitHub API rate limit exceeded, please try again later' };
+        }
+        const sso = parseSsoHeader(response.headers.get('X-GitHub-SSO'));
+        if (sso?.url) {
+          return {
+            valid: false,
+            tokenKind,
+            error: 'An organization enforces SAML SSO. Authorize this token for it on GitHub, then try again.',
+            ssoAuthorizationUrl: sso.url
+          };
+        }
+        return { valid: false, tokenKind, error: 'Token lacks required permissions' };
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        return { 
+          valid: false, 
+          tokenKind,
+          error: `API error: ${response.status} ${errorData.message || response.statusText}` 
+        };
+      }
+
+      tempService.confirmTokenExpiration(response);
+      const user = await response.json();
+      const scopesHeader = response.headers.get('x-oauth-scopes');
+      const scopes = scopesHeader ? scopesHeader.split(',').map(s => s.trim()).filter(Boolean) : [];
+
+      const capabilities = await tempService.probeCapabilities();
+      const hasNotificationsAccess = capabilities.find(c => c.id === 'notifications')!.available;
+
+      if (!hasNotificationsAccess) {
+        return { 
+          valid: false, 
+          user, 
+          hasNotificationsAccess: false,
+          scopes,
+          tokenKind,
+          capabilities,
+          error: tokenKind === 'fine-grained'
+            ? 'GitHub did not let this fine-grained token read notifications. Use a classic token with the notifications scope, or sign in with GitHub.'
+            : 'Token cannot read notifications. Required: notifications or repo scope'
+        };
+      }
+
+      return { 
+        valid: true, 
+        user, 
+        hasNotificationsAccess: true,
+        expiresAt: tempService.getTokenExpiration() ?? null,
+        scopes,
+        tokenKind,
+        capabilities
+      };
+    } catch (error) {
+      const hostLabel = new URL(this.host).hostname;
+      return { 
+        valid: false, 
+        tokenKind,
+        error: `Network error reaching ${hostLabel}: ${error instanceof Error ? error.message : 'Unknown error'}` 
+      };
+    }
+  }
+
+  /**
+   * Tell the token kind from its prefix
+   */
+  static getTokenKind(token: string): TokenKind {
+    if (token.startsWith('github_pat_')) return 'fine-grained';
+    if (token.startsWith('ghp_')) return 'classic';
+    if (token.startsWith('gho_')) return 'oauth';
+    return 'unknown';
+  }
+
+  /**
+   * Call one cheap endpoint per feature to see which ones this token can use
+   */
+  private async probeCapabilities(): Promise<TokenCapability[]> {
+    const probe = async (url: string, init: RequestInit = { method: 'GET' }): Promise<boolean> => {
+      try {
+        const response = await this.send(url, init);
+        if (!response.ok) {
+          return false;
+        }
+        // GraphQL reports missing permissions as errors in a 200 response
+        if (url === getGraphqlUrl(this.host)) {
+          const body = await response.json().catch(() => ({}));
+          return !body.errors;
+        }
+        return true;
+      } catch {
+        return false;
+      }
+    };
+
+    const [notifications, repositories, organizations, graphql] = await Promise.all([
+      probe('/notifications?per_page=1'),
+      probe('/user/repos?per_page=1'),
+      probe('/user/orgs?per_page=1'),
+      probe(getGraphqlUrl(this.host), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: '{ viewer { login } }' })
+      })
+    ]);
+
+    return [
+      { id: 'notifications', label: 'Read notifications', feature: 'Your inbox, marking read and done', available: notifications, required: true },
+      { id: 'repositories', label: 'List repositories', feature: 'Repository filters', available: repositories, required: false },
+      { id: 'organizations', label: 'List organizations', feature: 'Organization filters', available: organizations, required: false },
+      { id: 'graphql', label: 'GraphQL API', feature: 'PR and issue state badges, CI checks', available: graphql, required: false }
+    ];
+  }
+
+  /**
+   * Get the next page URL from a Link header, if GitHub reported one
+   */
+  private getNextPageUrl(response: Response): string | null {
+    const link = response.headers.get('Link');
+    const match = link?.match(/<([^>]+)>;\s*rel="next"/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Fetch a list endpoint by following Link rel="next" until the last page or maxPages
+   */
+  private async fetchAllPages<T>(url: string, errorContext: string, maxPages = DEFAULT_MAX_PAGES): Promise<{ items: T[]; truncated: boolean }> {
+    let items: T[] = [];
+    let nextUrl: string | null = url;
+    let pageCount = 0;
+
+    while (nextUrl && pageCount < maxPages) {
+      const response = await this.request(nextUrl, { method: 'GET' }, errorContext);
+      items = items.concat(await response.json());
+      nextUrl = this.getNextPageUrl(response);
+      pageCount++;
+    }
+
+    if (nextUrl) {
+      log(`⚠️ Stopped after ${maxPages} pages of ${url}, more results are available`);
+    }
+
+    return { items, truncated: nextUrl !== null };
+  }
+
+  /**
+   * Get user's repositories
+   */
+  async getUserRepositories(): Promise<GitHubRepository[]> {
+    if (!this.token) {
+      throw new Error('No token set');
+    }
+
+    const { items } = await this.fetchAllPages<GitHubRepository>('/user/repos?sort=updated&per_page=100', 'Failed to get repositories');
+
+    return items;
+  }
+
+  /**
+   * Get user's organizations
+   */
+  async getUserOrganizations(): Promise<GitHubOrganization[]> {
+    if (!this.token) {
+      throw new Error('No token set');
+    }
+
+    const { items } = await this.fetchAllPages<GitHubOrganization>('/user/orgs?per_page=100', 'Failed to get organizations');
+
+    return items;
+  }
+
+  /**
+   * Get notifications using conditional requests. When GitHub answers 304 Not Modified
+   * the cached inbox is reused, which does not count against the rate limit.
+   */
+  async fetchNotifications(params: NotificationQueryParams = {}): Promise<NotificationFetchResult> {
+    if (!this.token) {
+      throw new Error('No token set');
+    }
+
+    // Only add GitHub API supported parameters to the URL
+    const supportedParams = ['all', 'participating', 'since', 'before', 'per_page', 'page'];
+    const queryParams = new URLSearchParams();
+    supportedParams.forEach(key => {
+      if (params[key as keyof typeof params] !== undefined) {
+        queryParams.append(key, params[key as keyof typeof params]!.toString());
+      }
+    });
+    const firstPageUrl = `${this.baseUrl}/notifications?${queryParams.toString()}`;
+
+    const maxPages = params.maxPages || DEFAULT_MAX_PAGES;
+    // A different page cap can change the result, so it is part of the cache key
+    const cacheKey = `${firstPageUrl}#${maxPages}`;
+    const cached = this.notificationsCache?.key === cacheKey ? this.notificationsCache : null;
+
+    log('🔍 Custom filters will be applied client-side:', {
+      filterOrgs: params.filterOrgs,
+      filterRepos: params.filterRepos,
+      filterSubjectTypes: params.filterSubjectTypes,
+      filterReasons: params.filterReasons
+    });
+
+    // Collect all notifications by following the Link header
+    let allNotifications: any[] = [];
+    let notModified = false;
+    let truncated = false;
+    let nextUrl: string | null = firstPageUrl;
+    let pageCount = 0;
+    let etag: string | null = null;
+    let lastModified: string | null = null;
+
+    while (nextUrl) {
+      if (pageCount >= maxPages) {
+        log(`⚠️ Reached the ${maxPages} page limit, older notifications were not fetched`);
+        truncated = true;
+        break;
+      }
+
+      const isFirstPage = pageCount === 0;
+      const headers: Record<string, string> = {};
+
+      // Only the first page is conditional; it changes whenever anything in the inbox does
+      if (isFirstPage && cached) {
+        if (cached.etag) {
+          headers['If-None-Match'] = cached.etag;
+        }
+        if (cached.lastModified) {
+          headers['If-Modified-Since'] = cached.lastModified;
+        }
+      }
+
+      log(`🌐 Fetching page ${pageCount + 1} from:`, nextUrl);
+      const pageResponse: Response = await this.request(nextUrl, {
+        method: 'GET',
+        headers
+      }, `Failed to get notifications page ${pageCount + 1}`);
+      log('📡 Response status:', pageResponse.status, pageResponse.statusText);
+
+      // Respect the poll interval GitHub asks for
+      const pollInterval = pageResponse.headers.get('X-Poll-Interval');
+      if (pollInterval) {
+        log(`⏰ GitHub suggests polling every ${pollInterval} seconds`);
+        this.pollInterval = parseInt(pollInterval, 10) || null;
+      }
+
+      if (pageResponse.status === 304 && cached) {
+        log('📨 Notifications not modified since last fetch, reusing cached results');
+        allNotifications = cached.notifications;
+        truncated = cached.truncated;
+        notModified = true;
+        break;
+      }
+
+      if (isFirstPage) {
+        etag = pageResponse.headers.get('ETag');
+        lastModified = pageResponse.headers.get('Last-Modified');
+      }
+
+      const pageData = await pageResponse.json();
+      log(`📨 Page ${pageCount + 1} data length:`, pageData.length);
+      allNotifications = allNotifications.concat(pageData);
+
+      nextUrl = this.getNextPageUrl(pageResponse);
+      pageCount++;
+    }
+
+    if (!notModified) {
+      log(`📨 Total notifications fetched: ${allNotifications.length} across ${pageCount} pages`);
+      this.notificationsCache = { key: cacheKey, etag, lastModified, notifications: allNotifications, truncated };
+    }
+
+    // Apply custom filtering if filter parameters are provided
+    if (params.filterOrgs || params.filterRepos || params.filterSubjectTypes || params.filterReasons) {
+      log(`🔍 Starting client-side filtering of ${allNotifications.length} notifications...`);
+      const startTime = performance.now();
+      
+      const filteredData = this.filterNotifications(
+        allNotifications, 
+        params.filterOrgs || [], 
+        params.filterRepos || [],
+        params.filterSubjectTypes || [],
+        params.filterReasons || []
+      );
+      
+      const endTime = performance.now();
+      log(`🔍 Filtered notifications: ${allNotifications.length} → ${filteredData.length} (${(endTime - startTime).toFixed(2)}ms)`);
+      return { notifications: filteredData, notModified, pollInterval: this.pollInterval, truncated };
+    }
+
+    return { notifications: allNotifications, notModified, pollInterval: this.pollInterval, truncated };
+  }
+
+  /**
+   * Resolve state, draft flag, review decision, author and comment count for issue and pull request
+   * notifications. Details are cached per thread and only fetched again when its updated_at changes.
+   */
+  async getSubjectDetails(notifications: any[]): Promise<Record<string, SubjectDetails>> {
+    const details: Record<string, SubjectDetails> = {};
+    const pending: SubjectReference[] = [];
+
+    notifications.forEach(notification => {
+      const id = String(notification.id);
+      const cached = this.subjectDetailsCache.get(id);
+      if (cached) {
+        // Stale details are still shown if the refresh below fails
+        details[id] = cached.details;
+        // Finishing CI doesn't touch the thread, so pending checks are always looked up again
+        if (cached.updatedAt === notification.updated_at && cached.details.checks?.state !== 'pending') {
+          return;
+        }
+      }
+
+      const match = notification.subject?.url?.match(/\/repos\/([^/]+)\/([^/]+)\/(pulls|issues)\/(\d+)$/);
+      if (match) {
+        pending.push({
+          id,
+          updatedAt: notification.updated_at,
+          owner: match[1],
+          name: match[2],
+          number: parseInt(match[4], 10),
+          isPullRequest: match[3] === 'pulls'
+        });
+      }
+    });
+
+    // Forget threads that have left the inbox
+    const currentIds = new Set(notifications.map(n => String(n.id)));
+    for (const id of Array.from(this.subjectDetailsCache.keys())) {
+      if (!currentIds.has(id)) {
+        this.subjectDetailsCache.delete(id);
+      }
+    }
+
+    if (pending.length > 0) {
+      log(`🔍 Enriching ${pending.length} notifications via GraphQL (${notifications.length - pending.length} cached)`);
+    }
+
+    for (let i = 0; i < pending.length; i += GRAPHQL_BATCH_SIZE) {
+      const batch = pending.slice(i, i + GRAPHQL_BATCH_SIZE);
+      try {
+        const data = await this.querySubjectDetails(batch);
+        batch.forEach((subject, index) => {
+          const node = data[`s${index}`]?.[subject.isPullRequest ? 'pullRequest' : 'issue'];
+          if (!node) {
+            return;
+          }
+
+          const subjectDetails: SubjectDetails = {
+            state: String(node.state).toLowerCase() as SubjectDetails['state'],
+            isDraft: Boolean(node.isDraft),
+            reviewDecision: node.reviewDecision ?? null,
+            author: node.author?.login ?? null,
+            commentCount: node.comments?.totalCount ?? 0,
+            checks: this.getCheckStatus(node.commits?.nodes?.[0]?.commit?.statusCheckRollup)
+          };
+          this.subjectDetailsCache.set(subject.id, { updatedAt: subject.updatedAt, details: subjectDetails });
+          details[subject.id] = subjectDetails;
+        });
+      } catch (error) {
+        // Badges are a nice-to-have, so a failed lookup never fails the poll
+        console.error('❌ Failed to enrich notifications:', error);
+        break;
+      }
+    }
+
+    return details;
+  }
+
+  /**
+   * Reduce a GraphQL status check rollup to passing/failing/pending and the first failing check
+   */
+  private getCheckStatus(rollup: any): CheckStatus | null {
+    if (!rollup) {
+      return null;
+    }
+
+    const failing = (rollup.contexts?.nodes || []).find((context: any) =>
+      FAILED_CHECK_STATES.includes(context.__typename === 'CheckRun' ? context.conclusion : context.state)
+    );
+
+    let state: CheckStatus['state'] = 'pending';
+    if (rollup.state === 'SUCCESS') {
+      state = 'success';
+    } else if (rollup.state === 'FAILURE' || rollup.state === 'ERROR') {
+      state = 'failure';
+    }
+
+    return {
+      state,
+      failingName: failing ? (failing.name ?? failing.context ?? null) : null,
+      failingUrl: failing ? (failing.detailsUrl ?? failing.targetUrl ?? null) : null
+    };
+  }
+
+  /**
+   * Fetch details for a batch of subjects in a single GraphQL query, one aliased field per subject
+   */
+  private async querySubjectDetails(batch: SubjectReference[]): Promise<Record<string, any>> {
+    const variableDefinitions: string[] = [];
+    const fields: string[] = [];
+    const variables: Record<string, string | number> = {};
+
+    batch.forEach((subject, index) => {
+      variableDefinitions.push(`$owner${index}: String!, $name${index}: String!, $number${index}: Int!`);
+      const selection = subject.isPullRequest
+        ? `pullRequest(number: $number${index}) { state isDraft reviewDecision author { login } comments { totalCount } ${CHECKS_SELECTION} }`
+        : `issue(number: $number${index}) { state author { login } comments { totalCount } }`;
+      fields.push(`s${index}: repository(owner: $owner${index}, name: $name${index}) { ${selection} }`);
+      variables[`owner${index}`] = subject.owner;
+      variables[`name${index}`] = subject.name;
+      variables[`number${index}`] = subject.number;
+    });
+
+    const response = await this.request(getGraphqlUrl(this.host), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        query: `query(${variableDefinitions.join(', ')}) { ${fields.join(' ')} }`,
+        variables
+      })
+    }, 'Failed to query notification details');
+
+    const result = await response.json();
+    if (result.errors?.length) {
+      // Typically deleted subjects or repositories the token cannot see; the rest still resolve
+      log(`⚠️ GraphQL returned ${result.errors.length} errors:`, result.errors.map((e: any) => e.message));
+    }
+
+    return result.data || {};
+  }
+
+  /**
+   * Resolve the browser URL for a notification. Most subjects are derived locally; the rest
+   * (e.g. releases) are looked up via their API resource, falling back to the local guess.
+   */
+  async resolveNotificationUrl(notification: any): Promise<string> {
+    if (this.token && needsHtmlUrlLookup(notification)) {
+      try {
+        const response = await this.request(notification.subject.url, { method: 'GET' }, 'Failed to resolve notification URL');
+        const subject = await response.json();
+        if (subject.html_url) {
+          return `${subject.html_url}${getCommentAnchor(notification)}`;
+        }
+      } catch (error) {
+        console.error('❌ Failed to resolve notification URL, using a derived link:', error);
+      }
+    }
+
+    return buildNotificationUrl(notification, getWebBaseUrl(this.host));
+  }
+
+  /**
+   * Get the minimum polling interval (in seconds) last requested by GitHub, if any
+   */
+  getPollInterval(): number | null {
+    return this.pollInterval;
+  }
+
+  /**
+   * Mark a notification as read
+   */
+  async markNotificationAsRead(threadId: string): Promise<void> {
+    if (!this.token) {
+      throw new Error('No token set');
+    }
+
+    const url = `/notifications/threads/${threadId}`;
+    log(`🔍 Making API call to: ${url}`);
+
+    const response = await this.request(url, { method: 'PATCH' }, 'Failed to mark notification as read');
+    log(`🔍 Response status: ${response.status} ${response.statusText}`);
+    
+    log(`✅ Successfully marked notification ${threadId} as read via API`);
+  }
+
+  /**
+   * Mark a notification as done, which removes it from the inbox entirely
+   */
+  async markNotificationAsDone(threadId: string): Promise<void> {
+    if (!this.token) {
+      throw new Error('No token set');
+    }
+
+    await this.request(`/notifications/threads/${threadId}`, { method: 'DELETE' }, 'Failed to mark notification as done');
+    log(`✅ Successfully marked notification ${threadId} as done via API`);
+  }
+
+  /**
+   * Mute a thread so it stops generating notifications
+   */
+  async muteThread(threadId: string): Promise<void> {
+    if (!this.token) {
+      throw new Error('No token set');
+    }
+
+    await this.request(`/notifications/threads/${threadId}/subscription`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ ignored: true })
+    }, 'Failed to mute thread');
+  }
+
+  /**
+   * Unmute a thread by removing its ignored subscription
+   */
+  async unmuteThread(threadId: string): Promise<void> {
+    if (!this.token) {
+      throw new Error('No token set');
+    }
+
+    await this.request(`/notifications/threads/${threadId}/subscription`, { method: 'DELETE' }, 'Failed to unmute thread');
+  }
+
+  /**
+   * Mark all notifications as read
+   */
+  async markAllNotificationsAsRead(params: { last_read_at?: string } = {}): Promise<void> {
+    if (!this.token) {
+      throw new Error('No token set');
+    }
+
+    await this.request('/notifications', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(params)
+    }, 'Failed to mark all notifications as read');
+  }
+
+  /**
+   * Mark every notification in a repository as read with a single request
+   */
+  async markRepositoryNotificationsAsRead(repository: string, params: { last_read_at?: string } = {}): Promise<void> {
+    if (!this.token) {
+      throw new Error('No token set');
+    }
+
+    await this.request(`/repos/${repository}/notifications`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(params)
+    }, `Failed to mark notifications in ${repository} as read`);
+    log(`✅ Successfully marked notifications in ${repository} as read via API`);
+  }
+
+  /**
+   * Mark the shown threads of a repository as read. last_read_at also marks any older unread
+   * thread, including ones outside the inbox window that were never shown, so the single
+   * repository request is only used when every unread thread up to then is among the shown ones.
+   */
+  async markRepositoryThreadsAsRead(repository: string, threadIds: string[], lastReadAt: string): Promise<void> {
+    if (!this.token) {
+      throw new Error('No token set');
+    }
+
+    // Looking up the unread threads would cost as much as marking one thread directly
+    if (threadIds.length > 1) {
+      const { items: unread, truncated } = await this.fetchAllPages<{ id: string; updated_at: string }>(
+        `/repos/${repository}/notifications?per_page=100`,
+        `Failed to list notifications in ${repository}`
+      );
+      const lastReadTime = new Date(lastReadAt).getTime();
+      const hasHiddenThreads = truncated || unread.some(thread =>
+        !threadIds.includes(thread.id) && new Date(thread.updated_at).getTime() <= lastReadTime
+      );
+
+      if (!hasHiddenThreads) {
+        await this.markRepositoryNotificationsAsRead(repository, { last_read_at: lastReadAt });
+        return;
+      }
+      log(`🔍 ${repository} has unread notifications that aren't shown, marking ${threadIds.length} individually`);
+    }
+
+    for (const threadId of threadIds) {
+      await this.markNotificationAsRead(threadId);
+    }
+  }
+
+  /**
+   * Filter notifications based on organization, repository, subject type, and reason selections
+   */
+  private filterNotifications(
+    notifications: any[], 
+    filterOrgs: string[], 
+    filterRepos: string[], 
+    filterSubjectTypes: string[] = [], 
+    filterReasons: string[] = []
+  ): any[] {
+    // If no filters are applied, return all notifications
+    if (filterOrgs.length === 0 && filterRepos.length === 0 && filterSubjectTypes.length === 0 && filterReasons.length === 0) {
+      log('🔍 No filters applied, returning all notifications');
+      return notifications;
+    }
+
+    log('🔍 Filtering notifications with:', { 
+      filterOrgs, 
+      filterRepos, 
+      filterSubjectTypes,
+      filterReasons,
+      totalNotifications: notifications.length 
+    });
+    
+    log('🔍 Filter details:', {
+      filterOrgsLength: filterOrgs.length,
+      filterReposLength: filterRepos.length,
+      filterOrgs: filterOrgs,
+      filterRepos: filterRepos
+    });
+
+    const filtered = notifications.filter(notification => {
+      const repo = notification.repository;
+      if (!repo) {
+        log('🔍 Notification has no repository, excluding:', notification.id);
+        return false;
+      }
+
+      const repoId = repo.id.toString();
+      const ownerId = repo.owner?.id?.toString();
+      const ownerLogin = repo.owner?.login;
+      const repoName = repo.full_name;
+      // Unknown types and reasons are filtered as 'other' rather than dropped
+      const subjectType = getSubjectTypeInfo(notification.subject?.type).value;
+      const reason = getReasonInfo(notification.reason).value;
+      
+      // Debug: Log the raw repository data
+      if (notifications.indexOf(notification) < 2) {
+        log('🔍 Raw repository data:', {
+          repoId: repo.id,
+          repoIdType: typeof repo.id,
+          repoIdString: repoId,
+          ownerId: repo.owner?.id,
+          ownerIdType: typeof repo.owner?.id,
+          ownerIdString: ownerId
+        });
+      }
+      
+      // Debug: Log the first few notifications to see the data structure
+      if (notifications.indexOf(notification) < 3) {
+        log('🔍 Sample notification data:', {
+          notificationId: notification.id,
+          repoId: repoId,
+          repoIdType: typeof repoId,
+          ownerId: ownerId,
+          ownerIdType: typeof ownerId,
+          ownerLogin: ownerLogin,
+          repoName: repoName,
+          subjectType: subjectType,
+          reason: reason
+        });
+      }
+
+      log(`🔍 Checking notification ${notification.id} from repo ${repoName}:`, {
+        repoId,
+        ownerId,
+        ownerLogin,
+        subjectType,
+        reason,
+        isRepoSelected: filterRepos.includes(repoId),
+        isOwnerSelected: ownerId && filterOrgs.includes(ownerId),
+        isOwnerLoginSelected: ownerLogin && filterOrgs.includes(ownerLogin),
+        isSubjectTypeSelected: filterSubjectTypes.length === 0 || filterSubjectTypes.includes(subjectType),
+        isReasonSelected: filterReasons.length === 0 || filterReasons.includes(reason)
+      });
+
+      // Check repository/organization filters
+      let matchesRepoFilter = false;
+      if (filterOrgs.length === 0 && filterRepos.length === 0) {
+        matchesRepoFilter = true; // No repo/org filters applied
+      } else {
+        // Check if the repository is directly selected
+        const isRepoSelected = filterRepos.includes(repoId) || 
+                              filterRepos.includes(repo.id.toString()) ||
+                              filterRepos.some(id => String(id).trim() === String(repoId).trim());
+        
+        // Check if the repository's owner (organization or user) is selected
+        const isOwnerSelected = (ownerId && filterOrgs.includes(ownerId)) || 
+                               (ownerLogin && filterOrgs.includes(ownerLogin));
+        
+        log(`🔍 Checking repo ${repoName} (ID: ${repoId}):`, {
+          isRepoSelected,
+          isOwnerSelected,
+          filterRepos,
+          filterOrgs,
+          repoId,
+          ownerId,
+          ownerLogin
+        });
+        
+        // If we have repository filters, only show explicitly selected repositories
+        if (filterRepos.length > 0) {
+          if (isRepoSelected) {
+            log(`✅ Repository ${repoName} (ID: ${repoId}) is directly selected`);
+            matchesRepoFilter = true;
+          } else {
+            log(`❌ Repository ${repoName} (ID: ${repoId}) is not in selected repositories`);
+          }
+        }
+        // If we only have organization filters (no repository filters), show all repos from those orgs
+        else if (filterOrgs.length > 0) {
+          if (isOwnerSelected) {
+            log(`✅ Repository ${repoName} owner (${ownerLogin || ownerId}) is selected`);
+            matchesRepoFilter = true;
+          } else {
+            log(`❌ Repository ${repoName} owner (${ownerLogin || ownerId}) is not selected`);
+          }
+        }
+      }
+
+      // Check subject type filter
+      const matchesSubjectTypeFilter = filterSubjectTypes.length === 0 || filterSubjectTypes.includes(subjectType);
+
+      // Check reason filter
+      const matchesReasonFilter = filterReasons.length === 0 || filterReasons.includes(reason);
+
+      const matches = matchesRepoFilter && matchesSubjectTypeFilter && matchesReasonFilter;
+      
+      if (!matches) {
+        log(`❌ Notification ${notification.id} does not match filters`);
+      }
+
+      return matches;
+    });
+
+    log(`🔍 Filtering complete: ${notifications.length} → ${filtered.length} notifications`);
+    
+    // Debug: Log some statistics
+    if (filterRepos.length > 0) {
+      const repoMatches = filtered.filter(n => {
+        const repoId = n.repository?.id?.toString();
+        return repoId && filterRepos.includes(repoId);
+      });
+      log(`🔍 Repository filter results: ${repoMatches.length} notifications from selected repositories`);
+    }
+    
+    return filtered;
+  }
+}
@@ -0,0 +1,175 @@
+// The contract between the popup and the main process. Main registers a handler for every
+// channel, preload exposes one electronAPI method per entry and the renderer types
+// window.electronAPI from it, so a missing or misspelled method is a build error.
+// Types only: preload is compiled without module support and can't load anything at runtime.
+
+import type { AccountProfile, AppSettings, FilterSettings, MutedThread, Settings } from './settingsStorage';
+import type { NotificationPollState } from './notificationPoller';
+import type { GitHubOrganization, GitHubRepository, RateLimitInfo, SsoBlockedOrganization, TokenValidationResult } from './githubService';
+import type { DeviceCodeInfo, DeviceFlowErrorCode } from './deviceFlow';
+import type { SettingsImportPreview } from './settingsBundle';
+
+export interface DeviceFlowStartResult {
+  success: boolean;
+  info?: DeviceCodeInfo;
+  error?: string;
+}
+
+export interface DeviceFlowResult {
+  success: boolean;
+  error?: string;
+  code?: DeviceFlowErrorCode;
+}
+
+// Outcome of replacing an account's token from Settings
+export interface TokenRotationResult {
+  success: boolean;
+  error?: string;
+  // Login the new token belongs to
+  login?: string;
+  // The new token failed and the previous one was put back
+  rolledBack?: boolean;
+}
+
+// Outcome of a GitHub call the main process made on the popup's behalf
+export interface GitHubActionResult {
+  success: boolean;
+  error?: string;
+  rateLimited: boolean;
+  // The account's budget after the call
+  rateLimit: RateLimitInfo | null;
+}
+
+// Organizations and repositories an account can filter by
+export interface FilterOptions {
+  success: boolean;
+  error?: string;
+  organizations: GitHubOrganization[];
+  repositories: GitHubRepository[];
+  ssoBlockedOrganizations: SsoBlockedOrganization[];
+}
+
+export interface SettingsExportResult {
+  success: boolean;
+  error?: string;
+  // The user closed the save dialog
+  canceled?: boolean;
+  filePath?: string;
+  // Filtered IDs the account can no longer see, left out of the file
+  unresolved?: string[];
+}
+
+export interface SettingsImportPreviewResult {
+  success: boolean;
+  error?: string;
+  // The user closed the open dialog
+  canceled?: boolean;
+  preview?: SettingsImportPreview;
+}
+
+export interface NewAccountProfile {
+  name: string;
+  color?: string;
+  host?: string;
+}
+
+export interface AccountProfileChanges {
+  name?: string;
+  color?: string;
+  host?: string;
+}
+
+export interface ShowNotificationOptions {
+  tag?: string;
+  silent?: boolean;
+}
+
+/**
+ * Every invoke channel keyed by its electronAPI method: the channel name, its arguments and
+ * what it resolves to. Without an account ID, account-scoped calls act on the active account,
+ * or the first account while all are shown.
+ */
+export interface IpcContract {
+  // PAT management. Tokens only travel into the main process.
+  savePAT: { channel: 'save-pat'; args: [pat: string, accountId?: string, host?: string]; result: boolean };
+  rotatePAT: { channel: 'rotate-pat'; args: [pat: string, accountId?: string]; result: TokenRotationResult };
+  deletePAT: { channel: 'delete-pat'; args: [accountId?: string]; result: boolean };
+  hasPAT: { channel: 'has-pat'; args: [accountId?: string]; result: boolean };
+  validateToken: { channel: 'validate-token'; args: [pat: string, host?: string]; result: TokenValidationResult };
+
+  // OAuth device flow sign-in
+  isDeviceFlowAvailable: { channel: 'is-device-flow-available'; args: []; result: boolean };
+  startDeviceFlow: { channel: 'start-device-flow'; args: [host?: string]; result: DeviceFlowStartResult };
+  completeDeviceFlow: { channel: 'complete-device-flow'; args: [accountId?: string, host?: string]; result: DeviceFlowResult };
+  cancelDeviceFlow: { channel: 'cancel-device-flow'; args: []; result: void };
+
+  // Account profiles
+  getAccounts: { channel: 'get-accounts'; args: []; result: { accounts: AccountProfile[]; activeAccountId: string | null } };
+  addAccount: { channel: 'add-account'; args: [profile: NewAccountProfile, pat: string]; result: AccountProfile | null };
+  updateAccount: { channel: 'update-account'; args: [accountId: string, changes: AccountProfileChanges]; result: boolean };
+  removeAccount: { channel: 'remove-account'; args: [accountId: string]; result: boolean };
+  setActiveAccount: { channel: 'set-active-account'; args: [accountId: string | null]; result: boolean };
+
+  // Opening things in the browser
+  openInBrowser: { channel: 'open-in-browser'; args: [url: string]; result: void };
+  openNotification: { channel: 'open-notification'; args: [accountId: string, notificationId: string]; result: boolean };
+
+  // GitHub actions, run with the account's token
+  markThreadAsRead: { channel: 'mark-thread-read'; args: [accountId: string, threadId: string]; result: GitHubActionResult };
+  markThreadAsDone: { channel: 'mark-thread-done'; args: [accountId: string, threadId: string]; result: GitHubActionResult };
+  markRepositoryAsRead: { channel: 'mark-repository-read'; args: [accountId: string, repository: string, threadIds: string[], lastReadAt: string]; result: GitHubActionResult };
+  markAllAsRead: { channel: 'mark-all-read'; args: [accountId: string]; result: GitHubActionResult };
+  getRateLimits: { channel: 'get-rate-limits'; args: []; result: Record<string, RateLimitInfo | null> };
+  getFilterOptions: { channel: 'get-filter-options'; args: [accountId?: string]; result: FilterOptions };
+
+  // Filter settings
+  saveFilterSettings: { channel: 'save-filter-settings'; args: [filterSettings: FilterSettings, accountId?: string]; result: boolean };
+  getFilterSettings: { channel: 'get-filter-settings'; args: [accountId?: string]; result: FilterSettings };
+
+  // General settings
+  setSettings: { channel: 'set-settings'; args: [settings: AppSettings]; result: boolean };
+  getSettings: { channel: 'get-settings'; args: []; result: AppSettings };
+
+  // Settings files for sharing filters and app settings, e.g. with a teammate
+  exportSettings: { channel: 'export-settings'; args: [accountId?: string]; result: SettingsExportResult };
+  previewSettingsImport: { channel: 'preview-settings-import'; args: [accountId?: string]; result: SettingsImportPreviewResult };
+  // Resolves with the saved settings, or null if nothing was applied
+  applySettingsImport: { channel: 'apply-settings-import'; args: [filterSettings: FilterSettings, settings: AppSettings, accountId?: string]; result: Settings | null };
+
+  // Muted threads
+  muteThread: { channel: 'mute-thread'; args: [thread: Omit<MutedThread, 'mutedAt'>]; result: boolean };
+  unmuteThread: { channel: 'unmute-thread'; args: [accountId: string, threadId: string]; result: boolean };
+  getMutedThreads: { channel: 'get-muted-threads'; args: []; result: MutedThread[] };
+
+  // Notification polling, which runs in the main process
+  refreshNotifications: { channel: 'refresh-notifications'; args: []; result: NotificationPollState };
+  getNotificationState: { channel: 'get-notification-state'; args: []; result: NotificationPollState };
+  // Threads are identified by getNotificationKey, since thread IDs repeat across hosts
+  dismissNotifications: { channel: 'dismiss-notifications'; args: [notificationKeys: string[]]; result: void };
+
+  // Desktop notifications and app control
+  showNotification: { channel: 'show-notification'; args: [title: string, body: string, options?: ShowNotificationOptions]; result: void };
+  quit: { channel: 'quit'; args: []; result: void };
+}
+
+export type IpcMethod = keyof IpcContract;
+export type IpcChannel = IpcContract[IpcMethod]['channel'];
+
+type ChannelEntry<C extends IpcChannel> = Extract<IpcContract[IpcMethod], { channel: C }>;
+export type IpcArgs<C extends IpcChannel> = ChannelEntry<C>['args'];
+export type IpcResult<C extends IpcChannel> = ChannelEntry<C>['result'];
+
+// Events the main process pushes to the popup
+export interface IpcEvents {
+  'notification-update': NotificationPollState;
+}
+
+/**
+ * What preload exposes as window.electronAPI
+ */
+export type ElectronAPI = {
+  [M in IpcMethod]: (...args: IpcContract[M]['args']) => Promise<IpcContract[M]['result']>;
+} & {
+  // Returns a function that unsubscribes
+  onNotificationUpdate: (callback: (state: IpcEvents['notification-update']) => void) => () => void;
+};
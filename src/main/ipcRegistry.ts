@@ -0,0 +1,132 @@
+import { ipcMain } from 'electron';
+import type { IpcArgs, IpcChannel, IpcResult } from './ipcContract';
+import { log } from './log';
+
+// Checks one argument arriving from the popup. Preload is typed against the contract, but
+// anything can call ipcRenderer.invoke, so handlers never trust a payload's shape.
+type Validator = (value: unknown) => boolean;
+
+const isString: Validator = value => typeof value === 'string';
+const isNumber: Validator = value => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Validator = value => typeof value === 'boolean';
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optional = (validator: Validator): Validator => value => value === undefined || validator(value);
+const nullable = (validator: Validator): Validator => value => value === null || validator(value);
+const arrayOf = (validator: Validator): Validator => value => Array.isArray(value) && value.every(validator);
+const oneOf = (...options: string[]): Validator => value => typeof value === 'string' && options.includes(value);
+
+/**
+ * An object whose listed fields pass their validators. Other fields are left alone so the
+ * popup can keep sending objects that carry extra UI state.
+ */
+const shape = (fields: Record<string, Validator>): Validator => value =>
+  isObject(value) && Object.entries(fields).every(([key, validator]) => validator(value[key]));
+
+const isStringArray = arrayOf(isString);
+
+const isFilterSettings = shape({
+  organizations: isStringArray,
+  repositories: isStringArray,
+  subjectTypes: isStringArray,
+  reasons: isStringArray
+});
+
+const isAppSettings = shape({
+  refreshInterval: isNumber,
+  maxNotificationPages: optional(isNumber),
+  openInBrowserAction: optional(oneOf('read', 'done', 'none')),
+  tokenExpiryReminderDays: optional(isNumber),
+  enableSound: isBoolean,
+  enableDesktopNotifications: isBoolean,
+  autoStart: isBoolean,
+  theme: oneOf('light', 'dark', 'system')
+});
+
+const isAccountFields = shape({
+  name: optional(isString),
+  color: optional(isString),
+  host: optional(isString)
+});
+
+type ArgValidators<Args extends unknown[]> = { [K in keyof Args]-?: Validator };
+
+/**
+ * One validator per argument for every channel. The tuple type follows the contract, so a
+ * channel can't be left out or given the wrong number of arguments.
+ */
+const IPC_VALIDATORS: { [C in IpcChannel]: ArgValidators<IpcArgs<C>> } = {
+  'save-pat': [isString, optional(isString), optional(isString)],
+  'rotate-pat': [isString, optional(isString)],
+  'delete-pat': [optional(isString)],
+  'has-pat': [optional(isString)],
+  'validate-token': [isString, optional(isString)],
+
+  'is-device-flow-available': [],
+  'start-device-flow': [optional(isString)],
+  'complete-device-flow': [optional(isString), optional(isString)],
+  'cancel-device-flow': [],
+
+  'get-accounts': [],
+  'add-account': [shape({ name: isString, color: optional(isString), host: optional(isString) }), isString],
+  'update-account': [isString, isAccountFields],
+  'remove-account': [isString],
+  'set-active-account': [nullable(isString)],
+
+  'open-in-browser': [isString],
+  'open-notification': [isString, isString],
+
+  'mark-thread-read': [isString, isString],
+  'mark-thread-done': [isString, isString],
+  'mark-repository-read': [isString, isString, isStringArray, isString],
+  'mark-all-read': [isString],
+  'get-rate-limits': [],
+  'get-filter-options': [optional(isString)],
+
+  'save-filter-settings': [isFilterSettings, optional(isString)],
+  'get-filter-settings': [optional(isString)],
+
+  'set-settings': [isAppSettings],
+  'get-settings': [],
+
+  'export-settings': [optional(isString)],
+  'preview-settings-import': [optional(isString)],
+  'apply-settings-import': [isFilterSettings, isAppSettings, optional(isString)],
+
+  'mute-thread': [shape({ id: isString, title: isString, repository: isString, type: isString, accountId: isString })],
+  'unmute-thread': [isString, isString],
+  'get-muted-threads': [],
+
+  'refresh-notifications': [],
+  'get-notification-state': [],
+  'dismiss-notifications': [isStringArray],
+
+  'show-notification': [isString, isString, optional(shape({ tag: optional(isString), silent: optional(isBoolean) }))],
+  'quit': []
+};
+
+/**
+ * Register the main-process handler for a contract channel. Calls with extra or malformed
+ * arguments are rejected before the handler runs; the IPC event isn't passed on.
+ */
+export function handleIpc<C extends IpcChannel>(
+  channel: C,
+  handler: (...args: IpcArgs<C>) => IpcResult<C> | Promise<IpcResult<C>>
+): void {
+  const validators: readonly Validator[] = IPC_VALIDATORS[channel];
+  const run = handler as (...args: unknown[]) => unknown;
+
+  ipcMain.handle(channel, async (_, ...args: unknown[]) => {
+    const invalidIndex = args.length > validators.length
+      ? validators.length
+      : validators.findIndex((validate, index) => !validate(args[index]));
+
+    if (invalidIndex !== -1) {
+      log(`🚫 Rejected ${channel}: argument ${invalidIndex + 1} is missing, extra or malformed`);
+      throw new Error(`Invalid arguments for ${channel}`);
+    }
+
+    return await run(...args);
+  });
+}
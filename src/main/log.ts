@@ -0,0 +1,7 @@
+/**
+ * Log a message prefixed with a timestamp, shared by the main process modules
+ */
+export const log = (message: string, ...args: any[]) => {
+  const timestamp = new Date().toISOString();
+  console.log(`[${timestamp}] ${message}`, ...args);
+};
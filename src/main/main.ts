@@ -1,45 +1,52 @@
-import { app, BrowserWindow, Tray, Menu, nativeImage, screen, ipcMain, Notification } from 'electron';
+import { app, BrowserWindow, Tray, Menu, nativeImage, screen, Notification, dialog } from 'electron';
+import * as fs from 'fs';
 import * as path from 'path';
 import { SecureStorage } from './secureStorage';
-import { SettingsStorage, FilterSettings, AppSettings } from './settingsStorage';
+import { SettingsStorage, FilterSettings, AppSettings, MutedThread } from './settingsStorage';
+import { NotificationPoller, NotificationPollState } from './notificationPoller';
+import { GitHubService, GitHubApiError } from './githubService';
+import { getTrayIcon, getTrayIconState, buildTrayTooltip } from './trayStatus';
+import { DeviceFlow, DeviceFlowError, isDeviceFlowAvailable, getOAuthBaseUrl } from './deviceFlow';
+import { handleIpc } from './ipcRegistry';
+import { getNotificationKey } from './notificationKeys';
+import { createSettingsBundle, parseSettingsBundle, previewSettingsImport } from './settingsBundle';
+import type { AccountProfileChanges, GitHubActionResult, NewAccountProfile, ShowNotificationOptions } from './ipcContract';
 
 // Add isQuiting property to app object
 (app as any).isQuiting = false;
 
 let tray: Tray | null = null;
 let popupWindow: BrowserWindow | null = null;
+// Sign-in waiting for the user to enter their code on GitHub
+let deviceFlow: DeviceFlow | null = null;
+// Set while a dialog is open over the popup, which would otherwise hide when it loses focus
+let showingDialog = false;
+
+const notificationPoller = new NotificationPoller({
+  onStateChange: (state) => {
+    updateTray(state);
+    popupWindow?.webContents.send('notification-update', state);
+  },
+  onNewNotifications: ({ title, body, silent }) => {
+    showNotification(title, body, { tag: 'github-notifications', silent });
+  },
+  onTokenExpiring: ({ accountName, daysLeft }) => {
+    const when = daysLeft === 0 ? 'today' : `in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+    showNotification('GitHub token expiring', `The token for ${accountName} expires ${when}. Replace it in Settings to keep receiving notifications.`, { tag: 'token-expiry' });
+  }
+});
 
 function createTray() {
-  // Create tray icon (you can replace this with your own icon)
-  let icon: Electron.NativeImage;
-  
-  try {
-    if (process.platform === 'win32') {
-      // Windows: use .ico file if available, otherwise fallback to .png
-      const iconPath = path.join(__dirname, '../renderer/assets/icon.ico');
-      if (require('fs').existsSync(iconPath)) {
-        icon = nativeImage.createFromPath(iconPath);
-      } else {
-        icon = nativeImage.createFromPath(path.join(__dirname, '../renderer/assets/icon.png'));
-      }
-    } else {
-      // macOS: use .png with template image
-      icon = nativeImage.createFromPath(path.join(__dirname, '../renderer/assets/icon.png'));
-      icon.setTemplateImage(true);
-    }
-  } catch (error) {
+  // Start with the idle icon; updateTray() switches variants as the poll state changes
+  let icon = getTrayIcon('idle');
+  if (icon.isEmpty()) {
     // Fallback to a default icon if the file doesn't exist
     console.log('Icon file not found, using default icon');
     icon = nativeImage.createFromDataURL('data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTYiIGhlaWdodD0iMTYiIHZpZXdCb3g9IjAgMCAxNiAxNiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHJlY3Qgd2lkdGg9IjE2IiBoZWlnaHQ9IjE2IiByeD0iMiIgZmlsbD0iIzAwN2FmZiIvPgo8cGF0aCBkPSJNOCA0TDEyIDhMOCAxMkw0IDhMOCA0WiIgZmlsbD0id2hpdGUiLz4KPC9zdmc+');
   }
   
   tray = new Tray(icon);
-  tray.setToolTip('OctoBar - GitHub Notifications');
-  
-  // Set badge count (this will show on macOS)
-  if (process.platform === 'darwin') {
-    tray.setTitle('4'); // This shows the badge count on macOS
-  }
+  updateTray(notificationPoller.getState());
   
   // Left click shows the popup
   tray.on('click', () => {
@@ -67,6 +74,21 @@ function createTray() {
   // We can add it back later with a better implementation
 }
 
+function updateTray(state: NotificationPollState) {
+  if (!tray) return;
+
+  const icon = getTrayIcon(getTrayIconState(state));
+  if (!icon.isEmpty()) {
+    tray.setImage(icon);
+  }
+  tray.setToolTip(buildTrayTooltip(state));
+
+  // Show the unread count next to the icon (macOS only, Windows relies on the icon and tooltip)
+  if (process.platform === 'darwin') {
+    tray.setTitle(state.unreadCount > 0 ? state.unreadCount.toString() : '');
+  }
+}
+
 function createPopupWindow() {
   const { width, height } = screen.getPrimaryDisplay().workAreaSize;
   
@@ -77,7 +99,6 @@ function createPopupWindow() {
   console.log('Current working directory:', process.cwd());
   
   // Check if preload file exists
-  const fs = require('fs');
   if (!fs.existsSync(preloadPath)) {
     console.error('❌ Preload script not found at:', preloadPath);
     console.error('Available files in __dirname:');
@@ -195,7 +216,9 @@ function createPopupWindow() {
 
   // Hide window when it loses focus
   popupWindow.on('blur', () => {
-    popupWindow?.hide();
+    if (!showingDialog) {
+      popupWindow?.hide();
+    }
   });
   
   // Prevent window from being closed
@@ -220,11 +243,6 @@ function togglePopup() {
   }
 }
 
-function refreshNotifications() {
-  // TODO: Implement notification refresh
-  console.log('Refreshing notifications...');
-}
-
 function openSettings() {
   // TODO: Implement settings window
   console.log('Opening settings...');
@@ -251,10 +269,11 @@ function showNotification(title: string, body: string, options: any = {}) {
     notification.on('click', () => {
       console.log('🔔 Notification clicked');
       // Show the popup window when notification is clicked
-      if (popupWindow) {
-        popupWindow.show();
-        popupWindow.focus();
+      if (!popupWindow) {
+        createPopupWindow();
       }
+      popupWindow?.show();
+      popupWindow?.focus();
     });
 
     notification.on('show', () => {
@@ -272,77 +291,529 @@ function showNotification(title: string, body: string, options: any = {}) {
   }
 }
 
-// IPC handlers for PAT management
-ipcMain.handle('save-pat', async (_, pat: string) => {
-  return await SecureStorage.savePAT(pat);
+/**
+ * Show a dialog attached to the popup, keeping the popup open while the dialog has focus
+ */
+async function showPopupDialog<T>(show: (window: BrowserWindow | null) => Promise<T>): Promise<T> {
+  showingDialog = true;
+  try {
+    return await show(popupWindow);
+  } finally {
+    showingDialog = false;
+    popupWindow?.focus();
+  }
+}
+
+/**
+ * Organizations and repositories an account can see, for turning filter IDs into names and back
+ */
+async function loadFilterTargets(accountId: string) {
+  const account = (await SettingsStorage.loadAccounts()).find(a => a.id === accountId);
+  const githubService = notificationPoller.getGitHubService(accountId);
+  if (!account || !githubService) {
+    throw new Error('Sign in to this account to transfer its filters');
+  }
+
+  const [organizations, repositories] = await Promise.all([
+    githubService.getUserOrganizations(),
+    githubService.getUserRepositories()
+  ]);
+  return { account, organizations, repositories };
+}
+
+/**
+ * Run a GitHub call with an account's client and report the outcome as plain data, since
+ * errors lose their fields when they cross IPC
+ */
+async function runGitHubAction(accountId: string, action: (githubService: GitHubService) => Promise<void>): Promise<GitHubActionResult> {
+  const githubService = notificationPoller.getGitHubService(accountId);
+  if (!githubService) {
+    return { success: false, error: 'No GitHub token for this account', rateLimited: false, rateLimit: null };
+  }
+
+  try {
+    await action(githubService);
+    return { success: true, rateLimited: false, rateLimit: githubService.getRateLimit() };
+  } catch (error) {
+    console.error('❌ GitHub action failed:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      rateLimited: error instanceof GitHubApiError && error.rateLimited,
+      rateLimit: githubService.getRateLimit()
+    };
+  }
+}
+
+// IPC handlers for PAT management. Without an account ID these act on the active account, or the first.
+// Tokens only ever travel into the main process; nothing hands a stored token back out.
+handleIpc('save-pat', async (pat: string, requestedAccountId?: string, host?: string) => {
+  const accountId = await SettingsStorage.resolveTargetAccountId(requestedAccountId);
+  // The host is saved first so polling starts against the right server. The new token's
+  // expiry is unknown until its first request.
+  await SettingsStorage.updateAccount(accountId, {
+    ...(host !== undefined ? { host } : {}),
+    tokenExpiresAt: null,
+    expiryRemindedAt: null
+  });
+
+  const saved = await SecureStorage.savePAT(pat, accountId);
+  if (saved) {
+    const account = (await SettingsStorage.loadAccounts()).find(a => a.id === accountId);
+    notificationPoller.setToken(pat, accountId, account?.host);
+  }
+  return saved;
+});
+
+// Replace an account's token from Settings: the new token must validate, and the old one is
+// put back if GitHub rejects the new one on the first poll
+handleIpc('rotate-pat', async (pat: string, requestedAccountId?: string) => {
+  const accountId = await SettingsStorage.resolveTargetAccountId(requestedAccountId);
+  const account = (await SettingsStorage.loadAccounts()).find(a => a.id === accountId);
+  if (!account) {
+    return { success: false, error: 'Account not found' };
+  }
+
+  const validation = await new GitHubService(undefined, account.host).validateToken(pat);
+  if (!validation.valid) {
+    return { success: false, error: validation.error || 'Token is not valid' };
+  }
+
+  const previous = await SecureStorage.getPAT(accountId);
+  if (!await SecureStorage.replacePAT(pat, accountId)) {
+    return { success: false, error: 'Failed to store the token in the system keychain' };
+  }
+  await SettingsStorage.updateAccount(accountId, { tokenExpiresAt: null, expiryRemindedAt: null });
+
+  const state = await notificationPoller.setToken(pat, accountId, account.host);
+  const summary = state.accounts.find(s => s.id === accountId);
+  // Only an auth failure says the token is bad; being offline or rate limited doesn't
+  if (summary?.errorKind === 'auth' && previous) {
+    console.error(`❌ New token for account ${account.name} was rejected, restoring the previous one`);
+    await SecureStorage.replacePAT(previous, accountId);
+    notificationPoller.setToken(previous, accountId, account.host);
+    return { success: false, error: `GitHub rejected the new token: ${summary.error}`, rolledBack: true };
+  }
+
+  return { success: true, login: validation.user?.login };
+});
+
+handleIpc('delete-pat', async (requestedAccountId?: string) => {
+  const accountId = await SettingsStorage.resolveTargetAccountId(requestedAccountId);
+  notificationPoller.removeAccount(accountId);
+  return await SecureStorage.deletePAT(accountId);
+});
+
+handleIpc('has-pat', async (requestedAccountId?: string) => {
+  const accountId = await SettingsStorage.resolveTargetAccountId(requestedAccountId);
+  return await SecureStorage.hasPAT(accountId);
 });
 
-ipcMain.handle('get-pat', async () => {
-  return await SecureStorage.getPAT();
+handleIpc('validate-token', async (pat: string, host?: string) => {
+  return await new GitHubService(undefined, host).validateToken(pat);
+});
+
+// IPC handlers for OAuth device flow sign-in
+handleIpc('is-device-flow-available', async () => {
+  return isDeviceFlowAvailable();
+});
+
+handleIpc('start-device-flow', async (host?: string) => {
+  deviceFlow?.cancel();
+  deviceFlow = new DeviceFlow(getOAuthBaseUrl(host));
+
+  try {
+    return { success: true, info: await deviceFlow.start() };
+  } catch (error) {
+    deviceFlow = null;
+    console.error('❌ Failed to start device flow:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+});
+
+handleIpc('complete-device-flow', async (requestedAccountId?: string, host?: string) => {
+  const accountId = await SettingsStorage.resolveTargetAccountId(requestedAccountId);
+  const flow = deviceFlow;
+  if (!flow) {
+    return { success: false, error: 'Sign-in has not been started', code: 'failed' };
+  }
+
+  try {
+    const token = await flow.waitForToken();
+    await SettingsStorage.updateAccount(accountId, {
+      ...(host !== undefined ? { host } : {}),
+      tokenExpiresAt: null,
+      expiryRemindedAt: null
+    });
+    if (!await SecureStorage.savePAT(token, accountId)) {
+      return { success: false, error: 'Failed to store the token in the system keychain', code: 'failed' };
+    }
+
+    const account = (await SettingsStorage.loadAccounts()).find(a => a.id === accountId);
+    notificationPoller.setToken(token, accountId, account?.host);
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Device flow sign-in failed:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof DeviceFlowError ? error.code : 'failed'
+    };
+  } finally {
+    if (deviceFlow === flow) {
+      deviceFlow = null;
+    }
+  }
+});
+
+handleIpc('cancel-device-flow', async () => {
+  deviceFlow?.cancel();
+  deviceFlow = null;
+});
+
+// IPC handlers for account profiles
+handleIpc('get-accounts', async () => {
+  const settings = await SettingsStorage.loadSettings();
+  return { accounts: settings.accounts, activeAccountId: settings.activeAccountId };
+});
+
+handleIpc('add-account', async (profile: NewAccountProfile, pat: string) => {
+  const account = await SettingsStorage.addAccount(profile);
+  if (!account) {
+    return null;
+  }
+
+  if (!await SecureStorage.savePAT(pat, account.id)) {
+    await SettingsStorage.removeAccount(account.id);
+    return null;
+  }
+
+  notificationPoller.setToken(pat, account.id, account.host);
+  return account;
+});
+
+handleIpc('update-account', async (accountId: string, changes: AccountProfileChanges) => {
+  const saved = await SettingsStorage.updateAccount(accountId, changes);
+  if (!saved) {
+    return false;
+  }
+
+  // A new host needs a new client; the token stays the same
+  const pat = changes.host !== undefined ? await SecureStorage.getPAT(accountId) : null;
+  if (pat) {
+    const account = (await SettingsStorage.loadAccounts()).find(a => a.id === accountId);
+    notificationPoller.setToken(pat, accountId, account?.host);
+  } else {
+    notificationPoller.refresh();
+  }
+  return true;
 });
 
-ipcMain.handle('delete-pat', async () => {
-  return await SecureStorage.deletePAT();
+handleIpc('remove-account', async (accountId: string) => {
+  notificationPoller.removeAccount(accountId);
+  await SecureStorage.deletePAT(accountId);
+  return await SettingsStorage.removeAccount(accountId);
 });
 
-ipcMain.handle('has-pat', async () => {
-  return await SecureStorage.hasPAT();
+handleIpc('set-active-account', async (accountId: string | null) => {
+  return await SettingsStorage.setActiveAccount(accountId);
 });
 
 // IPC handler for opening URLs in default browser
-ipcMain.handle('open-in-browser', async (_, url: string) => {
+handleIpc('open-in-browser', async (url: string) => {
   const { shell } = require('electron');
   await shell.openExternal(url);
 });
 
-// IPC handlers for filter settings management
-ipcMain.handle('save-filter-settings', async (_, filterSettings: FilterSettings) => {
-  return await SettingsStorage.saveFilterSettings(filterSettings);
+// IPC handler for opening a notification at its resolved page (e.g. release tag or comment anchor)
+handleIpc('open-notification', async (accountId: string, notificationId: string) => {
+  const key = getNotificationKey({ account_id: accountId, id: notificationId });
+  const notification = notificationPoller.getState().notifications.find(n => getNotificationKey(n) === key);
+  const githubService = notification && notificationPoller.getGitHubService(notification.account_id);
+  if (!notification || !githubService) {
+    return false;
+  }
+
+  const { shell } = require('electron');
+  await shell.openExternal(await githubService.resolveNotificationUrl(notification));
+  return true;
+});
+
+// IPC handlers for GitHub actions, run with the poller's client for the account
+handleIpc('mark-thread-read', async (accountId: string, threadId: string) => {
+  return await runGitHubAction(accountId, githubService => githubService.markNotificationAsRead(threadId));
+});
+
+handleIpc('mark-thread-done', async (accountId: string, threadId: string) => {
+  return await runGitHubAction(accountId, githubService => githubService.markNotificationAsDone(threadId));
 });
 
-ipcMain.handle('get-filter-settings', async () => {
-  return await SettingsStorage.loadFilterSettings();
+handleIpc('mark-repository-read', async (accountId: string, repository: string, threadIds: string[], lastReadAt: string) => {
+  return await runGitHubAction(accountId, githubService =>
+    githubService.markRepositoryThreadsAsRead(repository, threadIds, lastReadAt)
+  );
 });
 
-ipcMain.handle('has-filter-settings', async () => {
-  return SettingsStorage.hasSettings();
+handleIpc('mark-all-read', async (accountId: string) => {
+  return await runGitHubAction(accountId, githubService => githubService.markAllNotificationsAsRead());
 });
 
-ipcMain.handle('delete-filter-settings', async () => {
-  return await SettingsStorage.deleteSettings();
+handleIpc('get-rate-limits', async () => {
+  return notificationPoller.getRateLimits();
+});
+
+// Organizations and repositories an account can filter by
+handleIpc('get-filter-options', async (requestedAccountId?: string) => {
+  const accountId = await SettingsStorage.resolveTargetAccountId(requestedAccountId);
+  const githubService = notificationPoller.getGitHubService(accountId);
+  if (!githubService) {
+    return { success: false, error: 'No GitHub token found for this account', organizations: [], repositories: [], ssoBlockedOrganizations: [] };
+  }
+
+  // Organizations authorized since the last listing shouldn't be reported again
+  githubService.resetSsoTracking();
+
+  // One list failing, e.g. because an organization enforces SAML SSO, still leaves the other
+  const [organizations, repositories] = await Promise.allSettled([
+    githubService.getUserOrganizations(),
+    githubService.getUserRepositories()
+  ]);
+  if (organizations.status === 'rejected' && repositories.status === 'rejected') {
+    console.error('❌ Failed to load filter options:', organizations.reason);
+    const reason = organizations.reason;
+    return { success: false, error: reason instanceof Error ? reason.message : 'Unknown error', organizations: [], repositories: [], ssoBlockedOrganizations: [] };
+  }
+
+  return {
+    success: true,
+    organizations: organizations.status === 'fulfilled' ? organizations.value : [],
+    repositories: repositories.status === 'fulfilled' ? repositories.value : [],
+    ssoBlockedOrganizations: await githubService.getSsoBlockedOrganizations()
+  };
+});
+
+// IPC handlers for filter settings management
+handleIpc('save-filter-settings', async (filterSettings: FilterSettings, accountId?: string) => {
+  const saved = await SettingsStorage.saveFilterSettings(filterSettings, accountId);
+  if (saved) {
+    notificationPoller.refresh();
+  }
+  return saved;
+});
+
+handleIpc('get-filter-settings', async (accountId?: string) => {
+  return await SettingsStorage.loadFilterSettings(accountId);
 });
 
 // IPC handlers for general settings management
-ipcMain.handle('set-settings', async (_, settings: AppSettings) => {
-  return await SettingsStorage.saveAppSettings(settings);
+handleIpc('set-settings', async (settings: AppSettings) => {
+  const previous = await SettingsStorage.loadAppSettings();
+  const saved = await SettingsStorage.saveAppSettings(settings);
+  if (saved) {
+    // A new page limit changes what the inbox holds, so fetch it again instead of waiting
+    if (settings.maxNotificationPages !== previous.maxNotificationPages) {
+      notificationPoller.refresh();
+    } else {
+      notificationPoller.reschedule();
+    }
+  }
+  return saved;
 });
 
-ipcMain.handle('get-settings', async () => {
+handleIpc('get-settings', async () => {
   return await SettingsStorage.loadAppSettings();
 });
 
-// IPC handler for loading all settings
-ipcMain.handle('load-all-settings', async () => {
+// IPC handlers for exporting settings to a file, previewing an import and applying it
+handleIpc('export-settings', async (requestedAccountId?: string) => {
+  const accountId = await SettingsStorage.resolveTargetAccountId(requestedAccountId);
+  try {
+    const { account, organizations, repositories } = await loadFilterTargets(accountId);
+    const { bundle, unresolved } = createSettingsBundle(
+      account.filters, await SettingsStorage.loadAppSettings(), account.host, organizations, repositories
+    );
+
+    const options = {
+      title: 'Export Settings',
+      defaultPath: 'octobar-settings.json',
+      filters: [{ name: 'OctoBar Settings', extensions: ['json'] }]
+    };
+    const { canceled, filePath } = await showPopupDialog(window =>
+      window ? dialog.showSaveDialog(window, options) : dialog.showSaveDialog(options)
+    );
+    if (canceled || !filePath) {
+      return { success: false, canceled: true };
+    }
+
+    fs.writeFileSync(filePath, JSON.stringify(bundle, null, 2));
+    console.log(`📤 Settings exported to ${filePath}`);
+    return { success: true, filePath, unresolved };
+  } catch (error) {
+    console.error('❌ Failed to export settings:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+});
+
+handleIpc('preview-settings-import', async (requestedAccountId?: string) => {
+  const accountId = await SettingsStorage.resolveTargetAccountId(requestedAccountId);
+  try {
+    const options = {
+      title: 'Import Settings',
+      properties: ['openFile' as const],
+      filters: [{ name: 'OctoBar Settings', extensions: ['json'] }]
+    };
+    const { canceled, filePaths } = await showPopupDialog(window =>
+      window ? dialog.showOpenDialog(window, options) : dialog.showOpenDialog(options)
+    );
+    if (canceled || filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+
+    const bundle = parseSettingsBundle(fs.readFileSync(filePaths[0], 'utf8'));
+    const { account, organizations, repositories } = await loadFilterTargets(accountId);
+    return {
+      success: true,
+      preview: previewSettingsImport(bundle, account.filters, await SettingsStorage.loadAppSettings(), organizations, repositories)
+    };
+  } catch (error) {
+    console.error('❌ Failed to read settings import:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+});
+
+handleIpc('apply-settings-import', async (filterSettings: FilterSettings, settings: AppSettings, accountId?: string) => {
+  if (!await SettingsStorage.applySettingsImport(filterSettings, settings, accountId)) {
+    return null;
+  }
+
+  // New filters change what the inbox holds, so fetch it again instead of waiting
+  notificationPoller.refresh();
   return await SettingsStorage.loadSettings();
 });
 
-// IPC handler for saving all settings
-ipcMain.handle('save-all-settings', async (_, settings: any) => {
-  return await SettingsStorage.saveSettings(settings);
+// IPC handlers for muting threads
+handleIpc('mute-thread', async (thread: Omit<MutedThread, 'mutedAt'>) => {
+  const githubService = notificationPoller.getGitHubService(thread.accountId);
+  if (!githubService) {
+    return false;
+  }
+
+  try {
+    await githubService.muteThread(thread.id);
+  } catch (error) {
+    console.error('❌ Failed to mute thread:', error);
+    return false;
+  }
+
+  // Remember the mute as soon as GitHub has it, so it can be undone from Settings
+  const saved = await SettingsStorage.addMutedThread({ ...thread, mutedAt: new Date().toISOString() });
+
+  // Muting only stops future notifications, so also clear the current one from the inbox. The
+  // mute stands if this fails; the thread just stays unread on GitHub.
+  try {
+    await githubService.markNotificationAsRead(thread.id);
+  } catch (error) {
+    console.error('⚠️ Muted thread could not be marked as read:', error);
+  }
+  notificationPoller.dismiss([getNotificationKey({ account_id: thread.accountId, id: thread.id })]);
+  return saved;
+});
+
+handleIpc('unmute-thread', async (accountId: string, threadId: string) => {
+  const githubService = notificationPoller.getGitHubService(accountId);
+  if (!githubService) {
+    return false;
+  }
+
+  try {
+    await githubService.unmuteThread(threadId);
+    return await SettingsStorage.removeMutedThread(accountId, threadId);
+  } catch (error) {
+    console.error('❌ Failed to unmute thread:', error);
+    return false;
+  }
+});
+
+handleIpc('get-muted-threads', async () => {
+  return await SettingsStorage.loadMutedThreads();
+});
+
+// IPC handlers for the main-process notification poller
+handleIpc('refresh-notifications', async () => {
+  return await notificationPoller.refresh();
+});
+
+handleIpc('get-notification-state', async () => {
+  return notificationPoller.getState();
+});
+
+handleIpc('dismiss-notifications', async (notificationKeys: string[]) => {
+  notificationPoller.dismiss(notificationKeys);
 });
 
 // IPC handler for notifications
-ipcMain.handle('show-notification', async (_, title: string, body: string, options: any = {}) => {
-  return showNotification(title, body, options);
+handleIpc('show-notification', async (title: string, body: string, options: ShowNotificationOptions = {}) => {
+  showNotification(title, body, options);
 });
 
 // IPC handler for app control
-ipcMain.handle('quit', async () => {
+handleIpc('quit', async () => {
   app.quit();
 });
 
+/**
+ * Ask what to do when the settings file can't be read, rather than starting over with defaults
+ * and overwriting it on the next save. Returns false when the user chose to quit.
+ */
+async function recoverUnreadableSettings(): Promise<boolean> {
+  const status = SettingsStorage.getFileStatus();
+  if (status.readable) {
+    return true;
+  }
+
+  const [latestBackup] = status.backups;
+  const buttons = latestBackup ? ['Restore Backup', 'Start Fresh', 'Quit'] : ['Start Fresh', 'Quit'];
+  const { response } = await dialog.showMessageBox({
+    type: 'warning',
+    title: 'OctoBar',
+    message: "OctoBar couldn't read its settings",
+    detail: [
+      `${SettingsStorage.getSettingsPath()}: ${status.error}`,
+      latestBackup ? `A backup from ${new Date(latestBackup.savedAt).toLocaleString()} can be restored.` : 'No readable backup was found.',
+      'Either way the unreadable file is kept next to it.'
+    ].join('\n\n'),
+    buttons,
+    defaultId: 0,
+    cancelId: buttons.length - 1
+  });
+
+  switch (buttons[response]) {
+    case 'Restore Backup':
+      return await SettingsStorage.restoreBackup(latestBackup.path) || await SettingsStorage.discardUnreadableSettings();
+    case 'Start Fresh':
+      return await SettingsStorage.discardUnreadableSettings();
+    default:
+      return false;
+  }
+}
+
+/**
+ * One-time move of preferences older versions kept in the keychain into the settings file,
+ * leaving only tokens in the keychain
+ */
+async function migrateKeychainSettings() {
+  const legacy = await SecureStorage.getLegacySettings();
+  if (!legacy.filters && !legacy.general) {
+    return;
+  }
+
+  if (await SettingsStorage.importLegacySettings(legacy)) {
+    await SecureStorage.deleteLegacySettings();
+  }
+}
+
 // App lifecycle events
-app.whenReady().then(() => {
+app.whenReady().then(async () => {
   // Set the app name to ensure notifications show the correct name
   app.setName('OctoBar');
   
@@ -351,7 +822,19 @@ app.whenReady().then(() => {
     app.setAppUserModelId('OctoBar');
   }
   
+  if (!await recoverUnreadableSettings()) {
+    app.quit();
+    return;
+  }
+
   createTray();
+
+  // Start polling right away so new notifications are picked up before the popup is ever opened,
+  // with any legacy filters already in place
+  await migrateKeychainSettings();
+  notificationPoller.start().catch(error => {
+    console.error('❌ Failed to start notification polling:', error);
+  });
   
   // Prevent app from showing in dock on macOS
   if (process.platform === 'darwin') {
@@ -0,0 +1,102 @@
+// Every subject type and reason the GitHub notifications API documents, plus 'other' for anything
+// it adds later. Drives filtering, badges and the tray tooltip so they can't drift apart.
+
+export type NotificationSubjectType =
+  | 'Issue'
+  | 'PullRequest'
+  | 'Commit'
+  | 'Release'
+  | 'Discussion'
+  | 'CheckSuite'
+  | 'WorkflowRun'
+  | 'RepositoryVulnerabilityAlert'
+  | 'RepositoryDependabotAlertsThread'
+  | 'RepositoryAdvisory'
+  | 'RepositoryInvitation'
+  | 'other';
+
+export type NotificationReason =
+  | 'approval_requested'
+  | 'assign'
+  | 'author'
+  | 'ci_activity'
+  | 'comment'
+  | 'invitation'
+  | 'manual'
+  | 'member_feature_requested'
+  | 'mention'
+  | 'push'
+  | 'review_requested'
+  | 'security_advisory_credit'
+  | 'security_alert'
+  | 'state_change'
+  | 'subscribed'
+  | 'team_mention'
+  | 'other';
+
+export interface SubjectTypeInfo {
+  value: NotificationSubjectType;
+  label: string;
+  icon: string;
+  // Short uppercase tag shown on notification cards
+  badge: string;
+}
+
+export interface ReasonInfo {
+  value: NotificationReason;
+  label: string;
+  icon: string;
+  badge: string;
+  description: string;
+  // Singular and plural nouns for counts, e.g. "3 review requests"
+  noun: [string, string];
+}
+
+export const SUBJECT_TYPES: SubjectTypeInfo[] = [
+  { value: 'Issue', label: 'Issues', icon: '🐛', badge: 'ISSUE' },
+  { value: 'PullRequest', label: 'Pull Requests', icon: '🔀', badge: 'PR' },
+  { value: 'Commit', label: 'Commits', icon: '📝', badge: 'COMMIT' },
+  { value: 'Release', label: 'Releases', icon: '🏷️', badge: 'RELEASE' },
+  { value: 'Discussion', label: 'Discussions', icon: '💬', badge: 'DISCUSS' },
+  { value: 'CheckSuite', label: 'Check Suites', icon: '✅', badge: 'CHECKS' },
+  { value: 'WorkflowRun', label: 'Workflow Runs', icon: '⚙️', badge: 'WORKFLOW' },
+  { value: 'RepositoryVulnerabilityAlert', label: 'Vulnerability Alerts', icon: '🛡️', badge: 'VULN' },
+  { value: 'RepositoryDependabotAlertsThread', label: 'Dependabot Alerts', icon: '🤖', badge: 'DEPENDABOT' },
+  { value: 'RepositoryAdvisory', label: 'Repository Advisories', icon: '📢', badge: 'ADVISORY' },
+  { value: 'RepositoryInvitation', label: 'Repository Invitations', icon: '📨', badge: 'INVITE' },
+  { value: 'other', label: 'Other', icon: '📌', badge: 'ITEM' }
+];
+
+export const REASONS: ReasonInfo[] = [
+  { value: 'approval_requested', label: 'Approval Requests', icon: '🚦', badge: 'APPROVAL', description: 'You were asked to approve a deployment', noun: ['approval request', 'approval requests'] },
+  { value: 'assign', label: 'Assigned', icon: '👤', badge: 'ASSIGN', description: 'You were assigned to an issue or PR', noun: ['assignment', 'assignments'] },
+  { value: 'author', label: 'Author', icon: '✍️', badge: 'AUTHOR', description: 'You authored the issue or PR', noun: ['authored thread', 'authored threads'] },
+  { value: 'ci_activity', label: 'CI Activity', icon: '⚙️', badge: 'CI', description: 'A workflow run you triggered finished', noun: ['CI update', 'CI updates'] },
+  { value: 'comment', label: 'Comments', icon: '💬', badge: 'COMMENT', description: 'New comments on issues or PRs', noun: ['comment', 'comments'] },
+  { value: 'invitation', label: 'Invitations', icon: '📧', badge: 'INVITE', description: 'Repository or organization invitations', noun: ['invitation', 'invitations'] },
+  { value: 'manual', label: 'Manual', icon: '🔔', badge: 'BELL', description: 'Manually subscribed notifications', noun: ['manual subscription', 'manual subscriptions'] },
+  { value: 'member_feature_requested', label: 'Feature Requests', icon: '🙋', badge: 'REQUEST', description: 'A member asked for a feature to be enabled', noun: ['feature request', 'feature requests'] },
+  { value: 'mention', label: 'Mentions', icon: '👋', badge: 'MENTION', description: 'You were mentioned in a comment', noun: ['mention', 'mentions'] },
+  { value: 'push', label: 'Pushes', icon: '⬆️', badge: 'PUSH', description: 'New commits pushed to repositories', noun: ['push', 'pushes'] },
+  { value: 'review_requested', label: 'Review Requests', icon: '👀', badge: 'REVIEW', description: 'You were requested to review a PR', noun: ['review request', 'review requests'] },
+  { value: 'security_advisory_credit', label: 'Advisory Credits', icon: '🏅', badge: 'CREDIT', description: 'You were credited on a security advisory', noun: ['advisory credit', 'advisory credits'] },
+  { value: 'security_alert', label: 'Security Alerts', icon: '🔒', badge: 'SECURITY', description: 'Security vulnerabilities detected', noun: ['security alert', 'security alerts'] },
+  { value: 'state_change', label: 'State Changes', icon: '🔄', badge: 'CHANGE', description: 'Issues or PRs were closed/merged', noun: ['state change', 'state changes'] },
+  { value: 'subscribed', label: 'Subscribed', icon: '👁️', badge: 'WATCH', description: 'You are watching the repository', noun: ['watched thread', 'watched threads'] },
+  { value: 'team_mention', label: 'Team Mentions', icon: '👥', badge: 'TEAM', description: 'Your team was mentioned', noun: ['team mention', 'team mentions'] },
+  { value: 'other', label: 'Other', icon: '📌', badge: 'NOTIFY', description: 'Reasons OctoBar does not know about yet', noun: ['other notification', 'other notifications'] }
+];
+
+/**
+ * Look up a subject type, treating anything unknown as 'other'
+ */
+export function getSubjectTypeInfo(type: string | null | undefined): SubjectTypeInfo {
+  return SUBJECT_TYPES.find(info => info.value === type) || SUBJECT_TYPES[SUBJECT_TYPES.length - 1];
+}
+
+/**
+ * Look up a reason, treating anything unknown as 'other'
+ */
+export function getReasonInfo(reason: string | null | undefined): ReasonInfo {
+  return REASONS.find(info => info.value === reason) || REASONS[REASONS.length - 1];
+}
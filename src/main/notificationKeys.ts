@@ -0,0 +1,14 @@
+/**
+ * Identify a notification across accounts. Thread IDs are only unique per GitHub host, so two
+ * accounts can each have a thread with the same ID.
+ */
+export function getNotificationKey(notification: { account_id: string; id: string | number }): string {
+  return `${notification.account_id}:${notification.id}`;
+}
+
+/**
+ * Identify a muted thread the same way, from the account it was muted for
+ */
+export function getMutedThreadKey(thread: { accountId: string; id: string }): string {
+  return getNotificationKey({ account_id: thread.accountId, id: thread.id });
+}
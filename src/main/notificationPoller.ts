@@ -0,0 +1,594 @@
+import { net } from 'electron';
+import { GitHubService, GitHubApiError, RateLimitInfo, SubjectDetails } from './githubService';
+import { SecureStorage } from './secureStorage';
+import { SettingsStorage, AccountProfile, AccountChanges, FilterSettings } from './settingsStorage';
+import { getNotificationKey } from './notificationKeys';
+import { log } from './log';
+
+export type PollErrorKind = 'auth' | 'offline' | 'rate-limit' | 'api';
+
+// Per-account result of the latest poll, for the account switcher and tray tooltip
+export interface AccountSummary {
+  id: string;
+  name: string;
+  color: string;
+  unreadCount: number;
+  error: string | null;
+  errorKind: PollErrorKind | null;
+}
+
+export interface NotificationPollState {
+  // Raw notifications from every account, each tagged with its account_id
+  notifications: any[];
+  unreadCount: number;
+  isRefreshing: boolean;
+  lastUpdated: string | null;
+  error: string | null;
+  errorKind: PollErrorKind | null;
+  rateLimit: RateLimitInfo | null;
+  // More notifications exist than the page limit allowed us to fetch
+  truncated: boolean;
+  // Issue and pull request state keyed by getNotificationKey
+  subjectDetails: Record<string, SubjectDetails>;
+  accounts: AccountSummary[];
+}
+
+interface AccountPollResult {
+  notifications: any[];
+  notModified: boolean;
+  truncated: boolean;
+  subjectDetails: Record<string, SubjectDetails>;
+}
+
+export interface NewNotificationAlert {
+  title: string;
+  body: string;
+  silent: boolean;
+}
+
+export interface TokenExpiryAlert {
+  accountId: string;
+  accountName: string;
+  expiresAt: string;
+  daysLeft: number;
+}
+
+interface NotificationPollerOptions {
+  onStateChange: (state: NotificationPollState) => void;
+  onNewNotifications: (alert: NewNotificationAlert) => void;
+  onTokenExpiring: (alert: TokenExpiryAlert) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Owns the notification refresh loop so polling keeps running while the popup is closed
+ */
+export class NotificationPoller {
+  private services = new Map<string, GitHubService>();
+  // Last good notifications per account, kept when a later poll for that account fails
+  private accountNotifications = new Map<string, any[]>();
+  // Bumped on every token change so results from an earlier poll are discarded
+  private generation = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<NotificationPollState> | null = null;
+  private state: NotificationPollState = {
+    notifications: [],
+    unreadCount: 0,
+    isRefreshing: false,
+    lastUpdated: null,
+    error: null,
+    errorKind: null,
+    rateLimit: null,
+    truncated: false,
+    subjectDetails: {},
+    accounts: []
+  };
+
+  // Track previously seen notification IDs to detect true "new" items even when count stays the same
+  private previousIds = new Set<string>();
+  private lastSeenUpdatedAt: string | null = null;
+  private previousCount = 0;
+
+  constructor(private options: NotificationPollerOptions) {}
+
+  /**
+   * Start polling every account that has a stored PAT
+   */
+  async start(): Promise<void> {
+    const accounts = await SettingsStorage.loadAccounts();
+    for (const account of accounts) {
+      const pat = await SecureStorage.getPAT(account.id);
+      if (pat) {
+        this.services.set(account.id, new GitHubService(pat, account.host));
+      }
+    }
+
+    if (this.services.size === 0) {
+      log('⏸️ No PAT stored, notification polling is idle until setup completes');
+      return;
+    }
+
+    this.restart();
+  }
+
+  /**
+   * Use a new token (or host) for an account and restart polling from a clean slate.
+   * Resolves with the state after the first poll that uses the new token.
+   */
+  setToken(token: string, accountId: string, host?: string): Promise<NotificationPollState> {
+    this.services.set(accountId, new GitHubService(token, host));
+    this.accountNotifications.delete(accountId);
+    return this.restart();
+  }
+
+  /**
+   * Stop polling an account and drop its notifications
+   */
+  removeAccount(accountId: string): void {
+    this.services.delete(accountId);
+    this.accountNotifications.delete(accountId);
+    if (this.services.size === 0) {
+      this.stop();
+      return;
+    }
+
+    this.restart();
+  }
+
+  /**
+   * Stop polling and forget every token and result
+   */
+  stop(): void {
+    this.clearTimer();
+    this.generation++;
+    this.services.clear();
+    this.accountNotifications.clear();
+    this.resetTracking();
+    this.updateState({
+      notifications: [],
+      unreadCount: 0,
+      isRefreshing: false,
+      lastUpdated: null,
+      error: null,
+      errorKind: null,
+      rateLimit: null,
+      truncated: false,
+      subjectDetails: {},
+      accounts: []
+    });
+  }
+
+  /**
+   * Get each account's latest rate limit budget, keyed by account ID
+   */
+  getRateLimits(): Record<string, RateLimitInfo | null> {
+    const rateLimits: Record<string, RateLimitInfo | null> = {};
+    this.services.forEach((service, accountId) => {
+      rateLimits[accountId] = service.getRateLimit();
+    });
+    return rateLimits;
+  }
+
+  /**
+   * Get the GitHub client polling an account, so one-off actions share its rate limit tracking
+   */
+  getGitHubService(accountId: string): GitHubService | null {
+    return this.services.get(accountId) || null;
+  }
+
+  /**
+   * Get the latest poll results
+   */
+  getState(): NotificationPollState {
+    return this.state;
+  }
+
+  /**
+   * Drop threads the user has just read or dismissed so the count updates before the next poll.
+   * Threads are identified by getNotificationKey.
+   */
+  dismiss(notificationKeys: string[]): void {
+    const dismissed = new Set(notificationKeys);
+    const notifications = this.state.notifications.filter(n => !dismissed.has(getNotificationKey(n)));
+    if (notifications.length === this.state.notifications.length) {
+      return;
+    }
+
+    // Keep diff tracking in sync so a dismissed thread is not reported as new by count
+    this.previousCount = notifications.length;
+    this.updateState({ notifications, unreadCount: notifications.length });
+  }
+
+  /**
+   * Fetch notifications now and schedule the next poll. Concurrent callers share the same request.
+   */
+  refresh(): Promise<NotificationPollState> {
+    if (this.services.size === 0) {
+      return Promise.resolve(this.state);
+    }
+
+    if (!this.inFlight) {
+      this.inFlight = this.poll().finally(() => {
+        this.inFlight = null;
+        this.scheduleNext();
+      });
+    }
+
+    return this.inFlight;
+  }
+
+  /**
+   * Re-arm the timer, e.g. after the refresh interval setting changed
+   */
+  reschedule(): void {
+    if (this.services.size > 0 && !this.inFlight) {
+      this.scheduleNext();
+    }
+  }
+
+  /**
+   * Poll again right away; a poll already running for the previous tokens is discarded
+   */
+  private restart(): Promise<NotificationPollState> {
+    this.generation++;
+    this.resetTracking();
+
+    if (this.inFlight) {
+      return this.inFlight.then(() => this.refresh());
+    }
+    return this.refresh();
+  }
+
+  private async poll(): Promise<NotificationPollState> {
+    const generation = this.generation;
+    log('🔄 Polling notifications from GitHub API...');
+    this.updateState({ isRefreshing: true });
+
+    try {
+      const { accounts: allAccounts, app: appSettings } = await SettingsStorage.loadSettings();
+      const accounts = allAccounts.filter(account => this.services.has(account.id));
+
+      const results = await Promise.allSettled(
+        accounts.map(account => this.pollAccount(account, this.services.get(account.id)!, appSettings.maxNotificationPages))
+      );
+
+      // A token change or stop while these requests were in flight makes the result stale
+      if (generation !== this.generation) {
+        return this.state;
+      }
+
+      const summaries: AccountSummary[] = [];
+      const subjectDetails: Record<string, SubjectDetails> = {};
+      let allNotModified = true;
+      let truncated = false;
+      let lastError: unknown = null;
+
+      results.forEach((result, index) => {
+        const account = accounts[index];
+        if (result.status === 'fulfilled') {
+          this.accountNotifications.set(account.id, result.value.notifications);
+          Object.assign(subjectDetails, result.value.subjectDetails);
+          allNotModified = allNotModified && result.value.notModified;
+          truncated = truncated || result.value.truncated;
+        } else {
+          console.error(`❌ Notification poll failed for account ${account.name}:`, result.reason);
+          lastError = result.reason;
+          // Keep the previous subject details for the notifications we still show
+          this.accountNotifications.get(account.id)?.forEach(n => {
+            const key = getNotificationKey(n);
+            if (this.state.subjectDetails[key]) {
+              subjectDetails[key] = this.state.subjectDetails[key];
+            }
+          });
+        }
+
+        const failure = result.status === 'rejected' ? result.reason : null;
+        summaries.push({
+          id: account.id,
+          name: account.name,
+          color: account.color,
+          unreadCount: this.accountNotifications.get(account.id)?.length || 0,
+          error: failure ? (failure instanceof Error ? failure.message : 'Unknown error') : null,
+          errorKind: failure ? this.classifyError(failure) : null
+        });
+      });
+
+      const rawNotifications = accounts
+        .flatMap(account => this.accountNotifications.get(account.id) || [])
+        .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
+
+      log(`📨 Received ${rawNotifications.length} notifications from ${accounts.length} account(s)${allNotModified ? ' (not modified)' : ''}`);
+      if (allNotModified) {
+        // Nothing changed upstream; a different result can only come from a filter change
+        this.updateTracking(rawNotifications);
+      } else {
+        this.detectNewNotifications(rawNotifications, appSettings.enableDesktopNotifications, appSettings.enableSound);
+      }
+
+      // Only report an error for the whole inbox when no account could be polled
+      const allFailed = summaries.length > 0 && summaries.every(summary => summary.error);
+      this.updateState({
+        notifications: rawNotifications,
+        unreadCount: rawNotifications.length,
+        isRefreshing: false,
+        lastUpdated: new Date().toISOString(),
+        error: allFailed ? summaries[0].error : null,
+        errorKind: allFailed && lastError ? this.classifyError(lastError) : null,
+        rateLimit: this.getLowestRateLimit(),
+        truncated,
+        subjectDetails,
+        accounts: summaries
+      });
+
+      const polledAccounts = accounts.filter((_, index) => results[index].status === 'fulfilled');
+      await this.trackTokenExpiry(polledAccounts, appSettings.tokenExpiryReminderDays);
+    } catch (error) {
+      console.error('❌ Notification poll failed:', error);
+      this.updateState({
+        isRefreshing: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorKind: this.classifyError(error),
+        rateLimit: this.getLowestRateLimit()
+      });
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Fetch one account's notifications with its own filters and tag them with the account ID
+   */
+  private async pollAccount(account: AccountProfile, githubService: GitHubService, maxPages: number): Promise<AccountPollResult> {
+    const filters: FilterSettings = account.filters;
+
+    // Get notifications from the last 7 days. The cutoff is rounded to the start of the day so the
+    // request URL stays stable between polls and conditional requests can hit GitHub's cache.
+    const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    since.setUTCHours(0, 0, 0, 0);
+
+    const { notifications, notModified, truncated } = await githubService.fetchNotifications({
+      all: false, // Only unread notifications
+      participating: false,
+      per_page: 100,
+      maxPages,
+      since: since.toISOString(),
+      filterOrgs: filters.organizations,
+      filterRepos: filters.repositories,
+      filterSubjectTypes: filters.subjectTypes,
+      filterReasons: filters.reasons
+    });
+
+    // The service keys details by thread ID, which only identifies a thread within this account
+    const threadDetails = await githubService.getSubjectDetails(notifications);
+    const subjectDetails: Record<string, SubjectDetails> = {};
+    for (const [threadId, details] of Object.entries(threadDetails)) {
+      subjectDetails[getNotificationKey({ account_id: account.id, id: threadId })] = details;
+    }
+
+    return {
+      notifications: notifications.map(n => ({ ...n, account_id: account.id })),
+      notModified,
+      truncated,
+      subjectDetails
+    };
+  }
+
+  /**
+   * Store each token's expiry as GitHub reports it and remind once a day as it gets close
+   */
+  private async trackTokenExpiry(accounts: AccountProfile[], reminderDays: number): Promise<void> {
+    for (const account of accounts) {
+      const expiresAt = this.services.get(account.id)?.getTokenExpiration();
+      if (expiresAt === undefined) {
+        continue;
+      }
+
+      const changes: AccountChanges = {};
+      if (expiresAt !== (account.tokenExpiresAt ?? null)) {
+        changes.tokenExpiresAt = expiresAt;
+        changes.expiryRemindedAt = null;
+      }
+
+      if (expiresAt && reminderDays > 0) {
+        const daysLeft = Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / DAY_MS));
+        const remindedAt = changes.expiryRemindedAt === null ? null : account.expiryRemindedAt;
+        const remindedRecently = remindedAt && Date.now() - new Date(remindedAt).getTime() < DAY_MS;
+        if (daysLeft <= reminderDays && !remindedRecently) {
+          log(`⏳ Token for account ${account.name} expires in ${daysLeft} day(s)`);
+          this.options.onTokenExpiring({ accountId: account.id, accountName: account.name, expiresAt, daysLeft });
+          changes.expiryRemindedAt = new Date().toISOString();
+        }
+      }
+
+      if (Object.keys(changes).length > 0) {
+        try {
+          await SettingsStorage.updateAccount(account.id, changes);
+        } catch (error) {
+          console.error(`❌ Failed to store token expiry for account ${account.name}:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * The account closest to its rate limit decides what the popup warns about
+   */
+  private getLowestRateLimit(): RateLimitInfo | null {
+    return Array.from(this.services.values())
+      .map(service => service.getRateLimit())
+      .filter((rateLimit): rateLimit is RateLimitInfo => rateLimit !== null)
+      .sort((a, b) => a.remaining - b.remaining)[0] || null;
+  }
+
+  /**
+   * Compare against the previous poll and raise a desktop alert for new or updated threads
+   */
+  private detectNewNotifications(rawNotifications: any[], enableDesktopNotifications: boolean, enableSound: boolean): void {
+    const count = rawNotifications.length;
+    const currentIds = new Set<string>(rawNotifications.map(n => getNotificationKey(n)));
+
+    // 1) Prefer ID-diff based detection so we catch new items even when the total count stays constant
+    // 2) Fall back to updated_at and then count based checks
+    let alerted: any[] = [];
+    const newIds: string[] = [];
+    if (this.previousIds.size > 0) {
+      for (const id of currentIds) {
+        if (!this.previousIds.has(id)) {
+          newIds.push(id);
+        }
+      }
+    }
+
+    if (newIds.length > 0) {
+      log(`🔔 Detected ${newIds.length} brand new notifications by ID`);
+      alerted = rawNotifications.filter(n => newIds.includes(getNotificationKey(n)));
+    } else {
+      // Detect updates to existing threads (same ID but newer updated_at)
+      let updatedItems: any[] = [];
+      if (this.lastSeenUpdatedAt) {
+        const lastSeenTs = new Date(this.lastSeenUpdatedAt).getTime();
+        updatedItems = rawNotifications.filter(n => new Date(n.updated_at as string).getTime() > lastSeenTs);
+      }
+
+      if (updatedItems.length > 0) {
+        log(`🔔 Detected ${updatedItems.length} updated notifications by timestamp`);
+        alerted = updatedItems;
+      } else if (this.previousCount > 0 && count > this.previousCount) {
+        log(`🔔 ${count - this.previousCount} new notifications detected by count`);
+        alerted = rawNotifications.slice(0, count - this.previousCount);
+      } else if (this.previousCount === 0 && count > 0) {
+        // First time loading notifications - don't show notification for existing ones
+        log(`🔔 First load: ${count} existing notifications found (not showing notification)`);
+      }
+    }
+
+    if (alerted.length > 0) {
+      if (enableDesktopNotifications) {
+        this.options.onNewNotifications({ ...this.buildAlert(alerted), silent: !enableSound });
+      } else {
+        log('🔔 Desktop notifications disabled in settings');
+      }
+    }
+
+    this.updateTracking(rawNotifications);
+  }
+
+  /**
+   * Remember seen IDs, count and latest updatedAt for the next diff
+   */
+  private updateTracking(rawNotifications: any[]): void {
+    this.previousCount = rawNotifications.length;
+    this.previousIds = new Set<string>(rawNotifications.map(n => getNotificationKey(n)));
+    this.lastSeenUpdatedAt = rawNotifications
+      .map(n => n.updated_at as string)
+      .filter(Boolean)
+      .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0] || null;
+  }
+
+  private buildAlert(newNotifications: any[]): { title: string; body: string } {
+    const count = newNotifications.length;
+    const title = count === 1
+      ? 'New GitHub notification'
+      : `${count} new GitHub notifications`;
+
+    // Show details of the first few new notifications
+    const maxNotifications = Math.min(count, 3);
+    const details = newNotifications.slice(0, maxNotifications).map(notif => {
+      const repoName = notif.repository?.full_name || 'Unknown repository';
+      const subjectTitle = notif.subject?.title || 'Unknown notification';
+      const type = notif.subject?.type || 'Unknown';
+
+      // Truncate long titles
+      const truncatedTitle = subjectTitle.length > 50
+        ? subjectTitle.substring(0, 47) + '...'
+        : subjectTitle;
+
+      return `• ${type} in ${repoName}: ${truncatedTitle}`;
+    }).join('\n');
+
+    const body = count > maxNotifications
+      ? `${details}\n... and ${count - maxNotifications} more`
+      : details;
+
+    return { title, body };
+  }
+
+  private classifyError(error: unknown): PollErrorKind {
+    if (error instanceof GitHubApiError && error.status === 401) {
+      return 'auth';
+    }
+
+    if (error instanceof GitHubApiError && error.rateLimited) {
+      return 'rate-limit';
+    }
+
+    // fetch rejects with a TypeError when the network is unreachable
+    if (!net.isOnline() || error instanceof TypeError) {
+      return 'offline';
+    }
+
+    return 'api';
+  }
+
+  /**
+   * Arm the timer for the next poll. Never rejects: a failure is logged instead of ending the loop.
+   */
+  private scheduleNext(): void {
+    this.clearTimer();
+    if (this.services.size === 0) {
+      return;
+    }
+
+    this.getNextPollDelay()
+      .then(delaySeconds => {
+        // Another schedule may have been armed while settings were loading
+        this.clearTimer();
+        log(`⏰ Next notification poll in ${delaySeconds} seconds`);
+        this.timer = setTimeout(() => this.refresh(), delaySeconds * 1000);
+      })
+      .catch(error => {
+        console.error('❌ Failed to schedule the next notification poll:', error);
+      });
+  }
+
+  /**
+   * Seconds until the next poll
+   */
+  private async getNextPollDelay(): Promise<number> {
+    const { refreshInterval } = await SettingsStorage.loadAppSettings();
+
+    // Never poll any account faster than GitHub allows via X-Poll-Interval
+    const services = Array.from(this.services.values());
+    const pollIntervalSeconds = Math.max(0, ...services.map(service => service.getPollInterval() || 0));
+    let delaySeconds = Math.max(refreshInterval * 60, pollIntervalSeconds);
+
+    // With every account's budget spent, wait for the first rate limit window to reset
+    const rateLimits = services.map(service => service.getRateLimit());
+    if (rateLimits.every(rateLimit => rateLimit && rateLimit.remaining === 0)) {
+      const firstReset = Math.min(...rateLimits.map(rateLimit => new Date(rateLimit!.resetAt).getTime()));
+      const secondsUntilReset = Math.ceil((firstReset - Date.now()) / 1000);
+      delaySeconds = Math.max(delaySeconds, secondsUntilReset);
+    }
+
+    return delaySeconds;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private resetTracking(): void {
+    this.previousIds = new Set();
+    this.lastSeenUpdatedAt = null;
+    this.previousCount = 0;
+  }
+
+  private updateState(changes: Partial<NotificationPollState>): void {
+    this.state = { ...this.state, ...changes };
+    this.options.onStateChange(this.state);
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { buildNotificationUrl, getCommentAnchor, getRepositoryNotificationsUrl, needsHtmlUrlLookup } from './notificationUrls';
+import { getWebBaseUrl } from './githubHosts';
+
+const API = 'https://api.github.com/repos/octo/app';
+
+function notification(type: string, url: string | null, latestCommentUrl: string | null = url): any {
+  return {
+    id: '1',
+    repository: { full_name: 'octo/app' },
+    subject: { type, title: 'Subject', url, latest_comment_url: latestCommentUrl }
+  };
+}
+
+describe('buildNotificationUrl', () => {
+  it('links issues by number', () => {
+    expect(buildNotificationUrl(notification('Issue', `${API}/issues/12`))).toBe('https://github.com/octo/app/issues/12');
+  });
+
+  it('links pull requests by number', () => {
+    expect(buildNotificationUrl(notification('PullRequest', `${API}/pulls/34`))).toBe('https://github.com/octo/app/pull/34');
+  });
+
+  it('links commits by SHA', () => {
+    expect(buildNotificationUrl(notification('Commit', `${API}/commits/abc123`))).toBe('https://github.com/octo/app/commit/abc123');
+  });
+
+  it('links discussions by number', () => {
+    expect(buildNotificationUrl(notification('Discussion', `${API}/discussions/56`))).toBe('https://github.com/octo/app/discussions/56');
+  });
+
+  it('falls back to the releases page, since the API URL ends in a release id', () => {
+    expect(buildNotificationUrl(notification('Release', `${API}/releases/987654`))).toBe('https://github.com/octo/app/releases');
+  });
+
+  it('links check suites to the actions page', () => {
+    expect(buildNotificationUrl(notification('CheckSuite', null))).toBe('https://github.com/octo/app/actions');
+  });
+
+  it('links workflow runs to the actions page', () => {
+    expect(buildNotificationUrl(notification('WorkflowRun', null))).toBe('https://github.com/octo/app/actions');
+  });
+
+  it('links vulnerability alerts to Dependabot alerts', () => {
+    expect(buildNotificationUrl(notification('RepositoryVulnerabilityAlert', null)))
+      .toBe('https://github.com/octo/app/security/dependabot');
+  });
+
+  it('links Dependabot alert threads to Dependabot alerts', () => {
+    expect(buildNotificationUrl(notification('RepositoryDependabotAlertsThread', null)))
+      .toBe('https://github.com/octo/app/security/dependabot');
+  });
+
+  it('links repository invitations to the invitations page', () => {
+    expect(buildNotificationUrl(notification('RepositoryInvitation', null))).toBe('https://github.com/octo/app/invitations');
+  });
+
+  it('links repository advisories to the security advisories page', () => {
+    expect(buildNotificationUrl(notification('RepositoryAdvisory', `${API}/security-advisories/GHSA-xxxx`)))
+      .toBe('https://github.com/octo/app/security/advisories');
+  });
+
+  it('falls back to the repository notifications for unknown types', () => {
+    expect(buildNotificationUrl(notification('SomethingNew', `${API}/something/1`)))
+      .toBe('https://github.com/notifications?query=repo%3Aocto%2Fapp');
+  });
+
+  it('falls back to the list page when a derivable subject has no URL', () => {
+    expect(buildNotificationUrl(notification('Issue', null))).toBe('https://github.com/octo/app/issues');
+    expect(buildNotificationUrl(notification('PullRequest', null))).toBe('https://github.com/octo/app/pulls');
+    expect(buildNotificationUrl(notification('Commit', null))).toBe('https://github.com/octo/app/commits');
+    expect(buildNotificationUrl(notification('Discussion', null))).toBe('https://github.com/octo/app/discussions');
+  });
+
+  it('falls back to all notifications without a repository', () => {
+    expect(buildNotificationUrl({ subject: { type: 'Issue', url: `${API}/issues/12` } })).toBe('https://github.com/notifications');
+  });
+
+  it('ignores query strings on the subject URL', () => {
+    expect(buildNotificationUrl(notification('Issue', `${API}/issues/12?foo=bar`))).toBe('https://github.com/octo/app/issues/12');
+  });
+
+  it('appends the latest comment anchor', () => {
+    expect(buildNotificationUrl(notification('Issue', `${API}/issues/12`, `${API}/issues/comments/777`)))
+      .toBe('https://github.com/octo/app/issues/12#issuecomment-777');
+    expect(buildNotificationUrl(notification('PullRequest', `${API}/pulls/34`, `${API}/pulls/comments/888`)))
+      .toBe('https://github.com/octo/app/pull/34#discussion_r888');
+    expect(buildNotificationUrl(notification('Commit', `${API}/commits/abc123`, `${API}/comments/999`)))
+      .toBe('https://github.com/octo/app/commit/abc123#commitcomment-999');
+    expect(buildNotificationUrl(notification('Discussion', `${API}/discussions/56`, `${API}/discussions/56/comments/789`)))
+      .toBe('https://github.com/octo/app/discussions/56#discussioncomment-789');
+  });
+
+  it('builds links on a GitHub Enterprise Server host', () => {
+    const webBaseUrl = getWebBaseUrl('github.example.com/api/v3');
+    const apiUrl = 'https://github.example.com/api/v3/repos/octo/app';
+
+    expect(buildNotificationUrl(notification('PullRequest', `${apiUrl}/pulls/34`, `${apiUrl}/issues/comments/5`), webBaseUrl))
+      .toBe('https://github.example.com/octo/app/pull/34#issuecomment-5');
+    expect(buildNotificationUrl(notification('CheckSuite', null), webBaseUrl)).toBe('https://github.example.com/octo/app/actions');
+    expect(buildNotificationUrl(notification('SomethingNew', null), webBaseUrl))
+      .toBe('https://github.example.com/notifications?query=repo%3Aocto%2Fapp');
+  });
+});
+
+describe('getCommentAnchor', () => {
+  it('is empty when the latest comment is the subject itself', () => {
+    expect(getCommentAnchor(notification('Issue', `${API}/issues/12`))).toBe('');
+  });
+
+  it('is empty without a latest comment', () => {
+    expect(getCommentAnchor(notification('Issue', `${API}/issues/12`, null))).toBe('');
+  });
+
+  it('is empty for URLs that are not comments', () => {
+    expect(getCommentAnchor(notification('Release', `${API}/releases/1`, `${API}/releases/2`))).toBe('');
+  });
+});
+
+describe('needsHtmlUrlLookup', () => {
+  it('is only needed for subjects whose URL cannot be derived', () => {
+    expect(needsHtmlUrlLookup(notification('Release', `${API}/releases/987654`))).toBe(true);
+    expect(needsHtmlUrlLookup(notification('RepositoryVulnerabilityAlert', `${API}/vulnerability-alerts/1`))).toBe(true);
+    expect(needsHtmlUrlLookup(notification('RepositoryAdvisory', `${API}/security-advisories/GHSA-xxxx`))).toBe(true);
+    expect(needsHtmlUrlLookup(notification('Issue', `${API}/issues/12`))).toBe(false);
+    expect(needsHtmlUrlLookup(notification('PullRequest', `${API}/pulls/34`))).toBe(false);
+    expect(needsHtmlUrlLookup(notification('Discussion', `${API}/discussions/56`))).toBe(false);
+  });
+
+  it('is not needed without a subject URL', () => {
+    expect(needsHtmlUrlLookup(notification('CheckSuite', null))).toBe(false);
+  });
+});
+
+describe('getRepositoryNotificationsUrl', () => {
+  it('filters the notifications page to the repository', () => {
+    expect(getRepositoryNotificationsUrl(notification('Issue', null), 'https://github.example.com'))
+      .toBe('https://github.example.com/notifications?query=repo%3Aocto%2Fapp');
+  });
+});
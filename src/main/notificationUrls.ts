@@ -0,0 +1,97 @@
+// Subject types whose web URL can be derived from the API URL without asking GitHub
+const DERIVABLE_SUBJECT_TYPES = ['Issue', 'PullRequest', 'Commit', 'Discussion'];
+
+/**
+ * Get the last path segment of an API URL, e.g. the number in /repos/owner/repo/issues/123
+ */
+function getLastSegment(url: string): string {
+  const parts = url.split('?')[0].split('/');
+  return parts[parts.length - 1];
+}
+
+/**
+ * Fallback for anything we can't link to directly: the notifications page filtered to the repository
+ */
+export function getRepositoryNotificationsUrl(notification: any, webBaseUrl = 'https://github.com'): string {
+  const repository = notification.repository?.full_name;
+  if (!repository) {
+    return `${webBaseUrl}/notifications`;
+  }
+  return `${webBaseUrl}/notifications?query=${encodeURIComponent(`repo:${repository}`)}`;
+}
+
+/**
+ * Build the page anchor for the comment behind latest_comment_url, if it points at one
+ */
+export function getCommentAnchor(notification: any): string {
+  const commentUrl: string | null | undefined = notification.subject?.latest_comment_url;
+  // For a new issue or PR the latest "comment" is the subject itself
+  if (!commentUrl || commentUrl === notification.subject?.url) {
+    return '';
+  }
+
+  // Discussion comments live under their discussion, e.g. /discussions/56/comments/789
+  const discussionMatch = commentUrl.match(/\/discussions\/\d+\/comments\/(\d+)$/);
+  if (discussionMatch) {
+    return `#discussioncomment-${discussionMatch[1]}`;
+  }
+
+  const match = commentUrl.match(/\/(issues\/comments|pulls\/comments|comments)\/(\d+)$/);
+  if (!match) {
+    return '';
+  }
+
+  switch (match[1]) {
+    case 'issues/comments': return `#issuecomment-${match[2]}`;
+    case 'pulls/comments': return `#discussion_r${match[2]}`;
+    default: return `#commitcomment-${match[2]}`;
+  }
+}
+
+/**
+ * Check whether the web URL for a notification has to come from its API resource (e.g. a release
+ * tag, which the notification only carries as a numeric release id)
+ */
+export function needsHtmlUrlLookup(notification: any): boolean {
+  return Boolean(notification.subject?.url) && !DERIVABLE_SUBJECT_TYPES.includes(notification.subject?.type);
+}
+
+/**
+ * Build the browser URL for a notification from its subject, without any API calls
+ */
+export function buildNotificationUrl(notification: any, webBaseUrl = 'https://github.com'): string {
+  const repository = notification.repository?.full_name;
+  if (!repository) {
+    return getRepositoryNotificationsUrl(notification, webBaseUrl);
+  }
+
+  const repoUrl = `${webBaseUrl}/${repository}`;
+  const subjectUrl: string | null = notification.subject?.url || null;
+  const anchor = getCommentAnchor(notification);
+
+  switch (notification.subject?.type) {
+    case 'Issue':
+      return subjectUrl ? `${repoUrl}/issues/${getLastSegment(subjectUrl)}${anchor}` : `${repoUrl}/issues`;
+    case 'PullRequest':
+      return subjectUrl ? `${repoUrl}/pull/${getLastSegment(subjectUrl)}${anchor}` : `${repoUrl}/pulls`;
+    case 'Commit':
+      return subjectUrl ? `${repoUrl}/commit/${getLastSegment(subjectUrl)}${anchor}` : `${repoUrl}/commits`;
+    case 'Discussion':
+      return subjectUrl ? `${repoUrl}/discussions/${getLastSegment(subjectUrl)}${anchor}` : `${repoUrl}/discussions`;
+    case 'Release':
+      // The API URL ends in the release id rather than the tag; the exact page needs needsHtmlUrlLookup
+      return `${repoUrl}/releases`;
+    case 'CheckSuite':
+    case 'WorkflowRun':
+      return `${repoUrl}/actions`;
+    case 'RepositoryVulnerabilityAlert':
+    case 'RepositoryDependabotAlertsThread':
+      return `${repoUrl}/security/dependabot`;
+    case 'RepositoryInvitation':
+      return `${repoUrl}/invitations`;
+    case 'RepositoryAdvisory':
+      return `${repoUrl}/security/advisories`;
+    default:
+      return getRepositoryNotificationsUrl(notification, webBaseUrl);
+  }
+}
@@ -1,3 +1,11 @@
+// Preload runs sandboxed and can't require local files, so only types come from the contract
+type ElectronAPI = import('./ipcContract').ElectronAPI;
+type IpcChannel = import('./ipcContract').IpcChannel;
+type IpcArgs<C extends IpcChannel> = import('./ipcContract').IpcArgs<C>;
+type IpcResult<C extends IpcChannel> = import('./ipcContract').IpcResult<C>;
+type IpcContract = import('./ipcContract').IpcContract;
+type NotificationPollState = import('./notificationPoller').NotificationPollState;
+
 console.log('=== PRELOAD SCRIPT STARTING ===');
 
 try {
@@ -12,88 +20,201 @@ try {
   }
   
   console.log('About to expose electronAPI...');
+
+  // Only channels in the contract can be invoked, with the arguments it lists
+  const invoke = <C extends IpcChannel>(channel: C, ...args: IpcArgs<C>): Promise<IpcResult<C>> =>
+    ipcRenderer.invoke(channel, ...args);
   
   // Expose protected methods that allow the renderer process to use
   // the ipcRenderer without exposing the entire object
-  contextBridge.exposeInMainWorld('electronAPI', {
-    // Simple test method
-    test: () => {
-      console.log('Test method called from renderer');
-      return 'Hello from preload!';
+  const electronAPI: ElectronAPI = {
+    // PAT management. Tokens go to the main process and are never read back.
+    savePAT: (pat: string, accountId?: string, host?: string) => {
+      console.log('savePAT called');
+      return invoke('save-pat', pat, accountId, host);
     },
-    
-    // PAT management
-    savePAT: (pat: string) => {
-      console.log('savePAT called with:', pat ? `${pat.substring(0, 10)}...` : 'undefined');
-      return ipcRenderer.invoke('save-pat', pat);
+    rotatePAT: (pat: string, accountId?: string) => {
+      console.log('rotatePAT called');
+      return invoke('rotate-pat', pat, accountId);
     },
-    getPAT: () => {
-      console.log('getPAT called');
-      return ipcRenderer.invoke('get-pat');
-    },
-    deletePAT: () => {
+    deletePAT: (accountId?: string) => {
       console.log('deletePAT called');
-      return ipcRenderer.invoke('delete-pat');
+      return invoke('delete-pat', accountId);
     },
-    hasPAT: () => {
+    hasPAT: (accountId?: string) => {
       console.log('hasPAT called');
-      return ipcRenderer.invoke('has-pat');
+      return invoke('has-pat', accountId);
+    },
+    validateToken: (pat: string, host?: string) => {
+      console.log('validateToken called');
+      return invoke('validate-token', pat, host);
+    },
+
+    // OAuth device flow sign-in
+    isDeviceFlowAvailable: () => {
+      console.log('isDeviceFlowAvailable called');
+      return invoke('is-device-flow-available');
+    },
+    startDeviceFlow: (host?: string) => {
+      console.log('startDeviceFlow called');
+      return invoke('start-device-flow', host);
+    },
+    completeDeviceFlow: (accountId?: string, host?: string) => {
+      console.log('completeDeviceFlow called');
+      return invoke('complete-device-flow', accountId, host);
+    },
+    cancelDeviceFlow: () => {
+      console.log('cancelDeviceFlow called');
+      return invoke('cancel-device-flow');
+    },
+
+    // Account profiles
+    getAccounts: () => {
+      console.log('getAccounts called');
+      return invoke('get-accounts');
+    },
+    addAccount: (profile: IpcContract['addAccount']['args'][0], pat: string) => {
+      console.log('addAccount called');
+      return invoke('add-account', profile, pat);
+    },
+    updateAccount: (accountId: string, changes: IpcContract['updateAccount']['args'][1]) => {
+      console.log('updateAccount called');
+      return invoke('update-account', accountId, changes);
+    },
+    removeAccount: (accountId: string) => {
+      console.log('removeAccount called');
+      return invoke('remove-account', accountId);
+    },
+    setActiveAccount: (accountId: string | null) => {
+      console.log('setActiveAccount called');
+      return invoke('set-active-account', accountId);
     },
     
     // Filter settings management
-    saveFilterSettings: (filterSettings: any) => {
-      console.log('saveFilterSettings called with:', filterSettings);
-      return ipcRenderer.invoke('save-filter-settings', filterSettings);
+    saveFilterSettings: (filterSettings: IpcContract['saveFilterSettings']['args'][0], accountId?: string) => {
+      console.log('saveFilterSettings called');
+      return invoke('save-filter-settings', filterSettings, accountId);
     },
-    getFilterSettings: () => {
+    getFilterSettings: (accountId?: string) => {
       console.log('getFilterSettings called');
-      return ipcRenderer.invoke('get-filter-settings');
-    },
-    hasFilterSettings: () => {
-      console.log('hasFilterSettings called');
-      return ipcRenderer.invoke('has-filter-settings');
-    },
-    deleteFilterSettings: () => {
-      console.log('deleteFilterSettings called');
-      return ipcRenderer.invoke('delete-filter-settings');
+      return invoke('get-filter-settings', accountId);
     },
     
     // App control
     quit: () => {
       console.log('quit called');
-      return ipcRenderer.invoke('quit');
+      return invoke('quit');
     },
     
     // Settings management
-    setSettings: (settings: any) => {
-      console.log('setSettings called with:', settings);
-      return ipcRenderer.invoke('set-settings', settings);
+    setSettings: (settings: IpcContract['setSettings']['args'][0]) => {
+      console.log('setSettings called');
+      return invoke('set-settings', settings);
     },
     getSettings: () => {
       console.log('getSettings called');
-      return ipcRenderer.invoke('get-settings');
+      return invoke('get-settings');
     },
-    loadAllSettings: () => {
-      console.log('loadAllSettings called');
-      return ipcRenderer.invoke('load-all-settings');
-    },
-    saveAllSettings: (settings: any) => {
-      console.log('saveAllSettings called with:', settings);
-      return ipcRenderer.invoke('save-all-settings', settings);
+
+    // Settings import and export
+    exportSettings: (accountId?: string) => {
+      console.log('exportSettings called');
+      return invoke('export-settings', accountId);
+    },
+    previewSettingsImport: (accountId?: string) => {
+      console.log('previewSettingsImport called');
+      return invoke('preview-settings-import', accountId);
+    },
+    applySettingsImport: (
+      filterSettings: IpcContract['applySettingsImport']['args'][0],
+      settings: IpcContract['applySettingsImport']['args'][1],
+      accountId?: string
+    ) => {
+      console.log('applySettingsImport called');
+      return invoke('apply-settings-import', filterSettings, settings, accountId);
     },
     
     // Open URL in default browser
     openInBrowser: (url: string) => {
-      console.log('openInBrowser called with:', url);
-      return ipcRenderer.invoke('open-in-browser', url);
+      console.log('openInBrowser called');
+      return invoke('open-in-browser', url);
+    },
+    
+    openNotification: (accountId: string, notificationId: string) => {
+      console.log('openNotification called');
+      return invoke('open-notification', accountId, notificationId);
     },
     
     // Notifications
-    showNotification: (title: string, body: string, options: any = {}) => {
-      console.log('showNotification called with:', { title, body, options });
-      return ipcRenderer.invoke('show-notification', title, body, options);
+    showNotification: (title: string, body: string, options: IpcContract['showNotification']['args'][2] = {}) => {
+      console.log('showNotification called');
+      return invoke('show-notification', title, body, options);
+    },
+
+    // GitHub actions, run by the main process with the account's token
+    markThreadAsRead: (accountId: string, threadId: string) => {
+      console.log('markThreadAsRead called');
+      return invoke('mark-thread-read', accountId, threadId);
+    },
+    markThreadAsDone: (accountId: string, threadId: string) => {
+      console.log('markThreadAsDone called');
+      return invoke('mark-thread-done', accountId, threadId);
+    },
+    markRepositoryAsRead: (accountId: string, repository: string, threadIds: string[], lastReadAt: string) => {
+      console.log('markRepositoryAsRead called');
+      return invoke('mark-repository-read', accountId, repository, threadIds, lastReadAt);
+    },
+    markAllAsRead: (accountId: string) => {
+      console.log('markAllAsRead called');
+      return invoke('mark-all-read', accountId);
     },
-  });
+    getRateLimits: () => {
+      console.log('getRateLimits called');
+      return invoke('get-rate-limits');
+    },
+    getFilterOptions: (accountId?: string) => {
+      console.log('getFilterOptions called');
+      return invoke('get-filter-options', accountId);
+    },
+
+    // Thread subscriptions
+    muteThread: (thread: IpcContract['muteThread']['args'][0]) => {
+      console.log('muteThread called');
+      return invoke('mute-thread', thread);
+    },
+    unmuteThread: (accountId: string, threadId: string) => {
+      console.log('unmuteThread called');
+      return invoke('unmute-thread', accountId, threadId);
+    },
+    getMutedThreads: () => {
+      console.log('getMutedThreads called');
+      return invoke('get-muted-threads');
+    },
+
+    // Notification polling (runs in the main process)
+    refreshNotifications: () => {
+      console.log('refreshNotifications called');
+      return invoke('refresh-notifications');
+    },
+    getNotificationState: () => {
+      console.log('getNotificationState called');
+      return invoke('get-notification-state');
+    },
+    dismissNotifications: (notificationKeys: string[]) => {
+      console.log('dismissNotifications called');
+      return invoke('dismiss-notifications', notificationKeys);
+    },
+    onNotificationUpdate: (callback: (state: NotificationPollState) => void) => {
+      console.log('onNotificationUpdate subscribed');
+      const listener = (_event: any, state: NotificationPollState) => callback(state);
+      ipcRenderer.on('notification-update', listener);
+      return () => {
+        ipcRenderer.removeListener('notification-update', listener);
+      };
+    },
+  };
+
+  contextBridge.exposeInMainWorld('electronAPI', electronAPI);
   
   console.log('electronAPI exposed successfully');
   console.log('window.electronAPI should now be available in renderer');
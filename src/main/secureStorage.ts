@@ -1,10 +1,18 @@
 import * as keytar from 'keytar';
+import { DEFAULT_ACCOUNT_ID } from './settingsStorage';
 
 const SERVICE_NAME = 'OctoBar';
 const ACCOUNT_NAME = 'GitHub_PAT';
+// Older versions also kept preferences in the keychain under these entries
 const FILTER_SETTINGS_ACCOUNT = 'Filter_Settings';
 const GENERAL_SETTINGS_ACCOUNT = 'General_Settings';
 
+// Preferences found in the keychain; only tokens belong there now
+export interface LegacyKeychainSettings {
+  filters: { organizations: string[]; repositories: string[] } | null;
+  general: Record<string, unknown> | null;
+}
+
 // Platform-specific storage info for logging
 const getStorageInfo = () => {
   switch (process.platform) {
@@ -19,13 +27,20 @@ const getStorageInfo = () => {
   }
 };
 
+/**
+ * Keychain entry name holding the PAT for an account profile. The first account keeps the
+ * original entry so existing installs need no migration.
+ */
+const getTokenEntryName = (accountId: string) =>
+  accountId === DEFAULT_ACCOUNT_ID ? ACCOUNT_NAME : `${ACCOUNT_NAME}_${accountId}`;
+
 export class SecureStorage {
   /**
-   * Save the GitHub Personal Access Token securely
+   * Save the GitHub Personal Access Token for an account securely
    */
-  static async savePAT(pat: string): Promise<boolean> {
+  static async savePAT(pat: string, accountId = DEFAULT_ACCOUNT_ID): Promise<boolean> {
     try {
-      await keytar.setPassword(SERVICE_NAME, ACCOUNT_NAME, pat);
+      await keytar.setPassword(SERVICE_NAME, getTokenEntryName(accountId), pat);
       console.log(`PAT saved successfully to ${getStorageInfo()}`);
       return true;
     } catch (error) {
@@ -35,11 +50,37 @@ export class SecureStorage {
   }
 
   /**
-   * Retrieve the GitHub Personal Access Token
+   * Swap an account's token for a new one, restoring the previous token if the new one
+   * can't be read back from the keychain
+   */
+  static async replacePAT(pat: string, accountId = DEFAULT_ACCOUNT_ID): Promise<boolean> {
+    const entryName = getTokenEntryName(accountId);
+    try {
+      const previous = await keytar.getPassword(SERVICE_NAME, entryName);
+      await keytar.setPassword(SERVICE_NAME, entryName, pat);
+
+      if (await keytar.getPassword(SERVICE_NAME, entryName) !== pat) {
+        console.error(`PAT could not be verified in ${getStorageInfo()}, restoring the previous one`);
+        if (previous !== null) {
+          await keytar.setPassword(SERVICE_NAME, entryName, previous);
+        }
+        return false;
+      }
+
+      console.log(`PAT replaced successfully in ${getStorageInfo()}`);
+      return true;
+    } catch (error) {
+      console.error(`Failed to replace PAT in ${getStorageInfo()}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Retrieve the GitHub Personal Access Token for an account
    */
-  static async getPAT(): Promise<string | null> {
+  static async getPAT(accountId = DEFAULT_ACCOUNT_ID): Promise<string | null> {
     try {
-      const pat = await keytar.getPassword(SERVICE_NAME, ACCOUNT_NAME);
+      const pat = await keytar.getPassword(SERVICE_NAME, getTokenEntryName(accountId));
       if (pat) {
         console.log(`PAT retrieved successfully from ${getStorageInfo()}`);
       } else {
@@ -53,11 +94,11 @@ export class SecureStorage {
   }
 
   /**
-   * Delete the GitHub Personal Access Token
+   * Delete the GitHub Personal Access Token for an account
    */
-  static async deletePAT(): Promise<boolean> {
+  static async deletePAT(accountId = DEFAULT_ACCOUNT_ID): Promise<boolean> {
     try {
-      const deleted = await keytar.deletePassword(SERVICE_NAME, ACCOUNT_NAME);
+      const deleted = await keytar.deletePassword(SERVICE_NAME, getTokenEntryName(accountId));
       if (deleted) {
         console.log(`PAT deleted successfully from ${getStorageInfo()}`);
       } else {
@@ -71,11 +112,11 @@ export class SecureStorage {
   }
 
   /**
-   * Check if a PAT exists
+   * Check if a PAT exists for an account
    */
-  static async hasPAT(): Promise<boolean> {
+  static async hasPAT(accountId = DEFAULT_ACCOUNT_ID): Promise<boolean> {
     try {
-      const pat = await keytar.getPassword(SERVICE_NAME, ACCOUNT_NAME);
+      const pat = await keytar.getPassword(SERVICE_NAME, getTokenEntryName(accountId));
       return pat !== null;
     } catch (error) {
       console.error(`Failed to check PAT existence in ${getStorageInfo()}:`, error);
@@ -84,113 +125,43 @@ export class SecureStorage {
   }
 
   /**
-   * Save filter settings (organizations and repositories)
+   * Read the filter and general settings older versions kept in the keychain. Preferences now
+   * live in the settings file; these entries are only read to migrate them.
    */
-  static async saveFilterSettings(selectedOrgs: string[], selectedRepos: string[]): Promise<boolean> {
-    try {
-      const filterSettings = {
-        organizations: selectedOrgs,
-        repositories: selectedRepos,
-        savedAt: new Date().toISOString()
-      };
-      await keytar.setPassword(SERVICE_NAME, FILTER_SETTINGS_ACCOUNT, JSON.stringify(filterSettings));
-      console.log(`Filter settings saved successfully to ${getStorageInfo()}`);
-      return true;
-    } catch (error) {
-      console.error(`Failed to save filter settings to ${getStorageInfo()}:`, error);
-      return false;
-    }
-  }
-
-  /**
-   * Retrieve filter settings
-   */
-  static async getFilterSettings(): Promise<{ organizations: string[], repositories: string[] } | null> {
-    try {
-      const settings = await keytar.getPassword(SERVICE_NAME, FILTER_SETTINGS_ACCOUNT);
-      if (settings) {
-        const parsed = JSON.parse(settings);
-        console.log(`Filter settings retrieved successfully from ${getStorageInfo()}`);
-        return {
-          organizations: parsed.organizations || [],
-          repositories: parsed.repositories || []
-        };
-      } else {
-        console.log(`No filter settings found in ${getStorageInfo()}`);
+  static async getLegacySettings(): Promise<LegacyKeychainSettings> {
+    const read = async (entryName: string) => {
+      try {
+        const value = await keytar.getPassword(SERVICE_NAME, entryName);
+        return value ? JSON.parse(value) : null;
+      } catch (error) {
+        console.error(`Failed to read legacy ${entryName} from ${getStorageInfo()}:`, error);
         return null;
       }
-    } catch (error) {
-      console.error(`Failed to retrieve filter settings from ${getStorageInfo()}:`, error);
-      return null;
-    }
-  }
+    };
 
-  /**
-   * Check if filter settings exist
-   */
-  static async hasFilterSettings(): Promise<boolean> {
-    try {
-      const settings = await keytar.getPassword(SERVICE_NAME, FILTER_SETTINGS_ACCOUNT);
-      return settings !== null;
-    } catch (error) {
-      console.error(`Failed to check filter settings existence in ${getStorageInfo()}:`, error);
-      return false;
-    }
+    const filters = await read(FILTER_SETTINGS_ACCOUNT);
+    const general = await read(GENERAL_SETTINGS_ACCOUNT);
+    return {
+      filters: filters ? {
+        organizations: Array.isArray(filters.organizations) ? filters.organizations : [],
+        repositories: Array.isArray(filters.repositories) ? filters.repositories : []
+      } : null,
+      general: general && typeof general === 'object' ? general : null
+    };
   }
 
   /**
-   * Delete filter settings
+   * Delete the legacy settings entries once they have been moved to the settings file
    */
-  static async deleteFilterSettings(): Promise<boolean> {
+  static async deleteLegacySettings(): Promise<boolean> {
     try {
-      const deleted = await keytar.deletePassword(SERVICE_NAME, FILTER_SETTINGS_ACCOUNT);
-      if (deleted) {
-        console.log(`Filter settings deleted successfully from ${getStorageInfo()}`);
-      } else {
-        console.log(`No filter settings found to delete in ${getStorageInfo()}`);
-      }
-      return deleted;
-    } catch (error) {
-      console.error(`Failed to delete filter settings from ${getStorageInfo()}:`, error);
-      return false;
-    }
-  }
-
-  /**
-   * Save general application settings
-   */
-  static async saveSettings(settings: any): Promise<boolean> {
-    try {
-      const settingsData = {
-        ...settings,
-        savedAt: new Date().toISOString()
-      };
-      await keytar.setPassword(SERVICE_NAME, GENERAL_SETTINGS_ACCOUNT, JSON.stringify(settingsData));
-      console.log(`General settings saved successfully to ${getStorageInfo()}`);
+      await keytar.deletePassword(SERVICE_NAME, FILTER_SETTINGS_ACCOUNT);
+      await keytar.deletePassword(SERVICE_NAME, GENERAL_SETTINGS_ACCOUNT);
+      console.log(`Legacy settings deleted from ${getStorageInfo()}`);
       return true;
     } catch (error) {
-      console.error(`Failed to save general settings to ${getStorageInfo()}:`, error);
+      console.error(`Failed to delete legacy settings from ${getStorageInfo()}:`, error);
       return false;
     }
   }
-
-  /**
-   * Retrieve general application settings
-   */
-  static async getSettings(): Promise<any | null> {
-    try {
-      const settings = await keytar.getPassword(SERVICE_NAME, GENERAL_SETTINGS_ACCOUNT);
-      if (settings) {
-        const parsed = JSON.parse(settings);
-        console.log(`General settings retrieved successfully from ${getStorageInfo()}`);
-        return parsed;
-      } else {
-        console.log(`No general settings found in ${getStorageInfo()}`);
-        return null;
-      }
-    } catch (error) {
-      console.error(`Failed to retrieve general settings from ${getStorageInfo()}:`, error);
-      return null;
-    }
-  }
 }
@@ -0,0 +1,198 @@
+import type { AppSettings, FilterSettings } from './settingsStorage';
+import { validateAppSettings } from './settingsSchema';
+
+// Identifies an exported settings file and the layout of its contents
+const BUNDLE_FORMAT = 'octobar-settings';
+const BUNDLE_VERSION = 1;
+
+/**
+ * Portable copy of an account's filters and the app settings, e.g. to set up a teammate.
+ * Tokens are never included. Filters name organizations by login and repositories by
+ * owner/name, since the IDs stored in settings mean nothing without the same lookups.
+ */
+export interface SettingsBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  exportedAt: string;
+  // Host the filters were exported from
+  host: string;
+  filters: FilterSettings;
+  app: AppSettings;
+}
+
+// Just what the bundle needs from GitHub's organization and repository listings
+export interface NamedOrganization {
+  id: number;
+  login: string;
+}
+
+export interface NamedRepository {
+  id: number;
+  full_name: string;
+}
+
+// A setting the import would change
+export interface SettingsConflict {
+  setting: string;
+  current: string;
+  imported: string;
+}
+
+/**
+ * What importing a bundle would do, shown before anything is applied
+ */
+export interface SettingsImportPreview {
+  // Filters with names resolved to this account's IDs
+  filters: FilterSettings;
+  app: AppSettings;
+  conflicts: SettingsConflict[];
+  // What the import leaves out: organizations and repositories this account can't see, and
+  // invalid app settings
+  warnings: string[];
+  host: string;
+  exportedAt: string;
+}
+
+/**
+ * Build a bundle, naming each filtered organization and repository. IDs the account can no
+ * longer see are returned as unresolved and left out.
+ */
+export function createSettingsBundle(
+  filters: FilterSettings,
+  app: AppSettings,
+  host: string,
+  organizations: NamedOrganization[],
+  repositories: NamedRepository[]
+): { bundle: SettingsBundle; unresolved: string[] } {
+  const unresolved: string[] = [];
+  const toNames = <T extends { id: number }>(ids: string[], items: T[], name: (item: T) => string) =>
+    ids.flatMap(id => {
+      const item = items.find(candidate => String(candidate.id) === id);
+      if (!item) {
+        unresolved.push(id);
+        return [];
+      }
+      return [name(item)];
+    });
+
+  return {
+    bundle: {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      host,
+      filters: {
+        ...filters,
+        organizations: toNames(filters.organizations, organizations, org => org.login),
+        repositories: toNames(filters.repositories, repositories, repo => repo.full_name)
+      },
+      app
+    },
+    unresolved
+  };
+}
+
+/**
+ * Read a bundle from JSON, throwing if it isn't an OctoBar settings export
+ */
+export function parseSettingsBundle(json: string): SettingsBundle {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (data?.format !== BUNDLE_FORMAT) {
+    throw new Error('The file is not an OctoBar settings export');
+  }
+  if (data.version !== BUNDLE_VERSION) {
+    throw new Error(`Settings export version ${data.version} is not supported by this version of OctoBar`);
+  }
+
+  const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+  const filters = data.filters || {};
+  if (!['organizations', 'repositories', 'subjectTypes', 'reasons'].every(key => isStringArray(filters[key] ?? []))) {
+    throw new Error('The file has malformed filters');
+  }
+  if (typeof data.app !== 'object' || data.app === null) {
+    throw new Error('The file has no app settings');
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    host: typeof data.host === 'string' ? data.host : '',
+    filters: {
+      organizations: filters.organizations ?? [],
+      repositories: filters.repositories ?? [],
+      subjectTypes: filters.subjectTypes ?? [],
+      reasons: filters.reasons ?? []
+    },
+    app: data.app
+  };
+}
+
+const describe = (value: unknown) => Array.isArray(value) ? value.join(', ') || 'none' : String(value);
+
+/**
+ * Resolve a bundle's names to this account's IDs and list every setting that would change.
+ * Name matching ignores case, as GitHub does.
+ */
+export function previewSettingsImport(
+  bundle: SettingsBundle,
+  currentFilters: FilterSettings,
+  currentApp: AppSettings,
+  organizations: NamedOrganization[],
+  repositories: NamedRepository[]
+): SettingsImportPreview {
+  const unresolved: string[] = [];
+  const toIds = <T extends { id: number }>(names: string[], items: T[], name: (item: T) => string) =>
+    names.flatMap(wanted => {
+      const item = items.find(candidate => name(candidate).toLowerCase() === wanted.toLowerCase());
+      if (!item) {
+        unresolved.push(wanted);
+        return [];
+      }
+      return [String(item.id)];
+    });
+
+  const filters: FilterSettings = {
+    organizations: toIds(bundle.filters.organizations, organizations, org => org.login),
+    repositories: toIds(bundle.filters.repositories, repositories, repo => repo.full_name),
+    subjectTypes: bundle.filters.subjectTypes,
+    reasons: bundle.filters.reasons
+  };
+  // Invalid values keep the current setting
+  const { app, issues } = validateAppSettings(bundle.app, currentApp);
+
+  // Compare filters by name so the preview reads the way the bundle does
+  const currentNames = createSettingsBundle(currentFilters, currentApp, bundle.host, organizations, repositories).bundle.filters;
+  const importedNames: FilterSettings = {
+    ...bundle.filters,
+    organizations: bundle.filters.organizations.filter(name => !unresolved.includes(name)),
+    repositories: bundle.filters.repositories.filter(name => !unresolved.includes(name))
+  };
+
+  const sameList = (a: string[], b: string[]) =>
+    a.length === b.length && a.every(item => b.some(other => other.toLowerCase() === item.toLowerCase()));
+
+  const conflicts: SettingsConflict[] = [];
+  for (const key of Object.keys(importedNames) as (keyof FilterSettings)[]) {
+    if (!sameList(currentNames[key], importedNames[key])) {
+      conflicts.push({ setting: `filters.${key}`, current: describe(currentNames[key]), imported: describe(importedNames[key]) });
+    }
+  }
+  for (const key of Object.keys(app) as (keyof AppSettings)[]) {
+    if (app[key] !== currentApp[key]) {
+      conflicts.push({ setting: key, current: describe(currentApp[key]), imported: describe(app[key]) });
+    }
+  }
+
+  const warnings = [
+    ...unresolved.map(name => `${name} isn't visible to this account and is skipped`),
+    ...issues.map(issue => `${issue.path}: ${issue.message}`)
+  ];
+  return { filters, app, conflicts, warnings, host: bundle.host, exportedAt: bundle.exportedAt };
+}
@@ -0,0 +1,241 @@
+import { DEFAULT_GITHUB_HOST, normalizeHost } from './githubHosts';
+import type { AccountProfile, AppSettings, FilterSettings, MutedThread, Settings } from './settingsStorage';
+
+// Bumped whenever the shape of octobar-settings.json changes; each bump adds a migration below
+export const SETTINGS_VERSION = 3;
+
+// A setting that was repaired or dropped while reading settings
+export interface SettingsIssue {
+  // Where the value was, e.g. app.refreshInterval or accounts[1].host
+  path: string;
+  kind: 'invalid' | 'unknown';
+  message: string;
+}
+
+interface SettingsMigration {
+  // Version the settings are at after this step
+  version: number;
+  description: string;
+  migrate: (settings: Record<string, any>) => Record<string, any>;
+}
+
+// Ordered oldest first. Each step takes settings at the previous version.
+const MIGRATIONS: SettingsMigration[] = [
+  {
+    version: 2,
+    description: 'Move top-level filters into the first account and drop the unused showUnreadOnly setting',
+    migrate: ({ filters, ...settings }) => {
+      // Settings from before account profiles kept a single set of filters for the first account
+      const accounts = Array.isArray(settings.accounts) && settings.accounts.length > 0
+        ? settings.accounts
+        : [{ id: 'default', name: 'GitHub', filters: filters || {} }];
+      const { showUnreadOnly, ...app } = settings.app || {};
+      return { ...settings, accounts, app };
+    }
+  },
+  {
+    version: 3,
+    description: 'Give muted threads from before account profiles to the first account',
+    migrate: settings => {
+      // Thread IDs are only unique per host, so every muted thread needs its account
+      const firstAccountId = (Array.isArray(settings.accounts) && settings.accounts[0]?.id) || 'default';
+      const mutedThreads = Array.isArray(settings.mutedThreads)
+        ? settings.mutedThreads.map((thread: any) =>
+          thread && typeof thread === 'object' && !thread.accountId ? { ...thread, accountId: firstAccountId } : thread
+        )
+        : settings.mutedThreads;
+      return { ...settings, mutedThreads };
+    }
+  }
+];
+
+type Rule = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString: Rule = value => typeof value === 'string';
+const isNonEmptyString: Rule = value => typeof value === 'string' && value.trim() !== '';
+const isBoolean: Rule = value => typeof value === 'boolean';
+const isStringArray: Rule = value => Array.isArray(value) && value.every(isString);
+const isIntegerBetween = (min: number, max: number): Rule => value =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+const isOneOf = (...options: string[]): Rule => value => typeof value === 'string' && options.includes(value);
+const isNullableString: Rule = value => value === null || typeof value === 'string';
+
+const APP_RULES: { [K in keyof AppSettings]-?: Rule } = {
+  // Minutes between polls, up to once a day
+  refreshInterval: isIntegerBetween(1, 1440),
+  maxNotificationPages: isIntegerBetween(1, 50),
+  openInBrowserAction: isOneOf('read', 'done', 'none'),
+  tokenExpiryReminderDays: isIntegerBetween(0, 90),
+  enableSound: isBoolean,
+  enableDesktopNotifications: isBoolean,
+  autoStart: isBoolean,
+  theme: isOneOf('light', 'dark', 'system')
+};
+
+const FILTER_RULES: { [K in keyof FilterSettings]-?: Rule } = {
+  organizations: isStringArray,
+  repositories: isStringArray,
+  subjectTypes: isStringArray,
+  reasons: isStringArray
+};
+
+const ACCOUNT_RULES: { [K in keyof AccountProfile]-?: Rule } = {
+  id: isNonEmptyString,
+  name: isString,
+  color: isNonEmptyString,
+  host: isString,
+  filters: isRecord,
+  tokenExpiresAt: isNullableString,
+  expiryRemindedAt: isNullableString
+};
+
+const MUTED_THREAD_RULES: { [K in keyof MutedThread]-?: Rule } = {
+  id: isNonEmptyString,
+  title: isString,
+  repository: isString,
+  type: isString,
+  mutedAt: isString,
+  accountId: isString
+};
+
+const EMPTY_FILTERS: FilterSettings = { organizations: [], repositories: [], subjectTypes: [], reasons: [] };
+
+/**
+ * Schema version of settings read from disk. Everything before versioning was written as '1.0.0'.
+ */
+export function getSettingsVersion(settings: Record<string, any>): number {
+  return Number.isInteger(settings.version) ? settings.version : 1;
+}
+
+/**
+ * Bring settings read from disk up to SETTINGS_VERSION by running each pending migration in order
+ */
+export function migrateSettings(settings: Record<string, any>): Record<string, any> {
+  const fromVersion = getSettingsVersion(settings);
+  if (fromVersion > SETTINGS_VERSION) {
+    console.warn(`⚠️ Settings are from a newer OctoBar (version ${fromVersion}), reading them as version ${SETTINGS_VERSION}`);
+  }
+
+  return MIGRATIONS
+    .filter(step => step.version > fromVersion)
+    .reduce((migrated, step) => {
+      console.log(`📦 Migrating settings to version ${step.version}: ${step.description}`);
+      return { ...step.migrate(migrated), version: step.version };
+    }, settings);
+}
+
+/**
+ * Copy the fields that pass their rule. Missing or invalid fields fall back to the default when
+ * there is one and are left out otherwise; fields without a rule are reported and dropped.
+ */
+function readFields<T extends object>(
+  value: unknown,
+  rules: { [K in keyof T]-?: Rule },
+  defaults: Partial<T>,
+  path: string,
+  issues: SettingsIssue[]
+): Partial<T> {
+  const source = isRecord(value) ? value : {};
+  const result: Partial<T> = {};
+
+  for (const key of Object.keys(rules) as (keyof T & string)[]) {
+    const field = source[key];
+    if (field !== undefined && rules[key](field)) {
+      result[key] = field as T[keyof T & string];
+      continue;
+    }
+    if (field !== undefined) {
+      const fallback = key in defaults ? `using ${JSON.stringify(defaults[key])}` : 'dropped';
+      issues.push({ path: `${path}.${key}`, kind: 'invalid', message: `Invalid value ${JSON.stringify(field)}, ${fallback}` });
+    }
+    if (key in defaults) {
+      result[key] = defaults[key];
+    }
+  }
+
+  for (const key of Object.keys(source).filter(key => !(key in rules))) {
+    issues.push({ path: `${path}.${key}`, kind: 'unknown', message: 'Unknown setting, dropped' });
+  }
+  return result;
+}
+
+function readAccount(value: unknown, index: number, defaultColor: string, issues: SettingsIssue[]): AccountProfile | null {
+  const path = `accounts[${index}]`;
+  const account = readFields<AccountProfile>(value, ACCOUNT_RULES, { color: defaultColor, host: DEFAULT_GITHUB_HOST }, path, issues);
+  if (account.id === undefined || account.name === undefined) {
+    issues.push({ path, kind: 'invalid', message: 'Account without an ID or name, dropped' });
+    return null;
+  }
+
+  return {
+    ...account as AccountProfile,
+    host: normalizeHost(account.host),
+    filters: readFields<FilterSettings>(account.filters, FILTER_RULES, EMPTY_FILTERS, `${path}.filters`, issues) as FilterSettings
+  };
+}
+
+function readMutedThread(value: unknown, index: number, issues: SettingsIssue[]): MutedThread | null {
+  const path = `mutedThreads[${index}]`;
+  const thread = readFields<MutedThread>(value, MUTED_THREAD_RULES, {}, path, issues);
+  const required: (keyof MutedThread)[] = ['id', 'title', 'repository', 'type', 'mutedAt', 'accountId'];
+  if (required.some(key => thread[key] === undefined)) {
+    issues.push({ path, kind: 'invalid', message: 'Incomplete muted thread, dropped' });
+    return null;
+  }
+  return thread as MutedThread;
+}
+
+/**
+ * Check app settings on their own, e.g. from an imported bundle. Invalid values fall back to
+ * the given defaults.
+ */
+export function validateAppSettings(value: unknown, defaults: AppSettings): { app: AppSettings; issues: SettingsIssue[] } {
+  const issues: SettingsIssue[] = [];
+  const app = readFields<AppSettings>(value, APP_RULES, defaults, 'app', issues) as AppSettings;
+  return { app, issues };
+}
+
+/**
+ * Check settings at SETTINGS_VERSION against the schema. Invalid values are repaired from
+ * the defaults or dropped, unknown keys are dropped, and each change is returned as an issue.
+ */
+export function validateSettings(value: unknown, defaults: Settings): { settings: Settings; issues: SettingsIssue[] } {
+  const issues: SettingsIssue[] = [];
+  const source = isRecord(value) ? value : {};
+  const known = ['accounts', 'activeAccountId', 'app', 'mutedThreads', 'version', 'lastUpdated'];
+  for (const key of Object.keys(source).filter(key => !known.includes(key))) {
+    issues.push({ path: key, kind: 'unknown', message: 'Unknown setting, dropped' });
+  }
+
+  const defaultColor = defaults.accounts[0].color;
+  const accounts = (Array.isArray(source.accounts) ? source.accounts : [])
+    .map((account, index) => readAccount(account, index, defaultColor, issues))
+    .filter((account): account is AccountProfile => account !== null);
+  if (accounts.length === 0) {
+    accounts.push(...defaults.accounts);
+  }
+
+  let activeAccountId = source.activeAccountId ?? null;
+  if (activeAccountId !== null && !accounts.some(account => account.id === activeAccountId)) {
+    issues.push({ path: 'activeAccountId', kind: 'invalid', message: `No account ${JSON.stringify(activeAccountId)}, showing all accounts` });
+    activeAccountId = null;
+  }
+
+  const mutedThreads = (Array.isArray(source.mutedThreads) ? source.mutedThreads : [])
+    .map((thread, index) => readMutedThread(thread, index, issues))
+    .filter((thread): thread is MutedThread => thread !== null);
+
+  return {
+    settings: {
+      accounts,
+      activeAccountId: activeAccountId as string | null,
+      app: readFields<AppSettings>(source.app, APP_RULES, defaults.app, 'app', issues) as AppSettings,
+      mutedThreads,
+      version: SETTINGS_VERSION,
+      lastUpdated: typeof source.lastUpdated === 'string' ? source.lastUpdated : new Date().toISOString()
+    },
+    issues
+  };
+}
@@ -1,6 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { app } from 'electron';
+import { DEFAULT_GITHUB_HOST, normalizeHost } from './githubHosts';
+import type { LegacyKeychainSettings } from './secureStorage';
+import { getMutedThreadKey } from './notificationKeys';
+import { SETTINGS_VERSION, SettingsIssue, migrateSettings, validateSettings } from './settingsSchema';
 
 export interface FilterSettings {
   organizations: string[];
@@ -9,24 +13,83 @@ export interface FilterSettings {
   reasons: string[];
 }
 
+// What happens to a notification after it is opened in the browser
+export type OpenInBrowserAction = 'read' | 'done' | 'none';
+
 export interface AppSettings {
   refreshInterval: number;
+  // Upper bound on notification pages (100 each) fetched per poll
+  maxNotificationPages: number;
+  openInBrowserAction: OpenInBrowserAction;
+  // Days before a token expires to start reminding, 0 to never remind
+  tokenExpiryReminderDays: number;
   enableSound: boolean;
   enableDesktopNotifications: boolean;
   autoStart: boolean;
   theme: 'light' | 'dark' | 'system';
 }
 
-export interface Settings {
+// GitHub has no endpoint listing ignored threads, so muted threads are remembered locally
+export interface MutedThread {
+  id: string;
+  title: string;
+  repository: string;
+  type: string;
+  mutedAt: string;
+  // Thread IDs are only unique per host, so a thread is identified by its account and ID together
+  accountId: string;
+}
+
+// Profile for one GitHub account; its token lives in the keychain under the same ID
+export interface AccountProfile {
+  id: string;
+  name: string;
+  color: string;
+  // Web origin of github.com or a GitHub Enterprise Server instance
+  host: string;
   filters: FilterSettings;
+  // From GitHub's github-authentication-token-expiration header; null for tokens that never expire
+  tokenExpiresAt?: string | null;
+  expiryRemindedAt?: string | null;
+}
+
+export type AccountChanges = Partial<Omit<AccountProfile, 'id' | 'filters'>>;
+
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+// Colours offered for new accounts, in order
+export const ACCOUNT_COLORS = ['#8b5cf6', '#34c759', '#ff9500', '#007aff', '#ff3b30', '#5856d6'];
+
+export interface Settings {
+  accounts: AccountProfile[];
+  // Account shown in the popup, or null for the merged inbox of all accounts
+  activeAccountId: string | null;
   app: AppSettings;
-  version: string;
+  mutedThreads: MutedThread[];
+  // Schema version, see settingsSchema.ts
+  version: number;
   lastUpdated: string;
 }
 
+// Copies kept next to the settings file; .bak.1 is the file as it was before the last save
+const BACKUP_COUNT = 3;
+
+export interface SettingsBackup {
+  path: string;
+  savedAt: string;
+}
+
+export type SettingsFileStatus =
+  | { readable: true }
+  | { readable: false; error: string; backups: SettingsBackup[] };
+
 export class SettingsStorage {
   private static settingsPath: string;
   private static defaultSettings: Settings;
+  // Pending file writes, run one after another
+  private static queue: Promise<unknown> = Promise.resolve();
+  // Why the settings file couldn't be read, while it is left untouched
+  private static unreadableError: string | null = null;
 
   static {
     // Initialize settings path
@@ -34,20 +97,20 @@ export class SettingsStorage {
     
     // Set default settings
     this.defaultSettings = {
-      filters: {
-        organizations: [],
-        repositories: [],
-        subjectTypes: [],
-        reasons: []
-      },
+      accounts: [this.createDefaultAccount()],
+      activeAccountId: null,
       app: {
         refreshInterval: 5,
+        maxNotificationPages: 10,
+        openInBrowserAction: 'read',
+        tokenExpiryReminderDays: 7,
         enableSound: true,
         enableDesktopNotifications: true,
         autoStart: false,
         theme: 'system'
       },
-      version: '1.0.0',
+      mutedThreads: [],
+      version: SETTINGS_VERSION,
       lastUpdated: new Date().toISOString()
     };
   }
@@ -63,26 +126,23 @@ export class SettingsStorage {
    * Load settings from file
    */
   static async loadSettings(): Promise<Settings> {
-    try {
-      console.log(`📁 Loading settings from: ${this.settingsPath}`);
-      console.log(`📁 Settings file exists: ${fs.existsSync(this.settingsPath)}`);
-      
-      if (!fs.existsSync(this.settingsPath)) {
-        console.log('📁 Settings file does not exist, creating with defaults');
-        await this.saveSettings(this.defaultSettings);
-        return { ...this.defaultSettings };
-      }
+    console.log(`📁 Loading settings from: ${this.settingsPath}`);
+    console.log(`📁 Settings file exists: ${fs.existsSync(this.settingsPath)}`);
+
+    // The file is created by the first save
+    if (!fs.existsSync(this.settingsPath)) {
+      console.log('📁 Settings file does not exist, using defaults');
+      return { ...this.defaultSettings };
+    }
 
-      const data = fs.readFileSync(this.settingsPath, 'utf8');
-      console.log('📁 Raw settings file content:', data);
-      const settings = JSON.parse(data) as Settings;
-      
-      // Merge with defaults to handle missing properties
-      const mergedSettings = this.mergeWithDefaults(settings);
-      
+    try {
+      const settings = this.readSettingsFile(this.settingsPath);
+      this.unreadableError = null;
       console.log('✅ Settings loaded successfully');
-      return mergedSettings;
+      return settings;
     } catch (error) {
+      // Saves are refused until the file is restored or set aside, so it isn't overwritten
+      this.unreadableError = error instanceof Error ? error.message : 'Unknown error';
       console.error('❌ Failed to load settings:', error);
       console.log('📁 Falling back to default settings');
       return { ...this.defaultSettings };
@@ -93,38 +153,68 @@ export class SettingsStorage {
    * Save settings to file
    */
   static async saveSettings(settings: Partial<Settings>): Promise<boolean> {
-    try {
-      console.log(`💾 Saving settings to: ${this.settingsPath}`);
-      
-      // Load current settings and merge with new ones
-      const currentSettings = await this.loadSettings();
-      const mergedSettings = {
-        ...currentSettings,
-        ...settings,
-        lastUpdated: new Date().toISOString()
-      };
+    return await this.updateSettings(() => settings);
+  }
 
-      // Ensure directory exists
-      const dir = path.dirname(this.settingsPath);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
+  /**
+   * Check whether the settings file can be read, listing the backups it could be restored from
+   */
+  static getFileStatus(): SettingsFileStatus {
+    if (!fs.existsSync(this.settingsPath)) {
+      return { readable: true };
+    }
 
-      // Write to file
-      fs.writeFileSync(this.settingsPath, JSON.stringify(mergedSettings, null, 2));
-      
-      console.log('✅ Settings saved successfully');
-      return true;
+    try {
+      this.readSettingsFile(this.settingsPath);
+      this.unreadableError = null;
+      return { readable: true };
     } catch (error) {
-      console.error('❌ Failed to save settings:', error);
-      return false;
+      this.unreadableError = error instanceof Error ? error.message : 'Unknown error';
+      return { readable: false, error: this.unreadableError, backups: this.listReadableBackups() };
     }
   }
 
   /**
-   * Save filter settings
+   * Replace an unreadable settings file with one of its backups. The unreadable file is kept
+   * next to it.
+   */
+  static async restoreBackup(backupPath: string): Promise<boolean> {
+    return await this.enqueue(async () => {
+      try {
+        this.readSettingsFile(backupPath);
+        this.setAsideUnreadableFile();
+        this.writeAtomically(fs.readFileSync(backupPath, 'utf8'));
+        this.unreadableError = null;
+        console.log(`✅ Settings restored from ${backupPath}`);
+        return true;
+      } catch (error) {
+        console.error('❌ Failed to restore settings backup:', error);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Start over with default settings after the file couldn't be read. The unreadable file is
+   * kept next to it.
    */
-  static async saveFilterSettings(filterSettings: FilterSettings): Promise<boolean> {
+  static async discardUnreadableSettings(): Promise<boolean> {
+    return await this.enqueue(async () => {
+      try {
+        this.setAsideUnreadableFile();
+        this.unreadableError = null;
+        return true;
+      } catch (error) {
+        console.error('❌ Failed to set aside unreadable settings:', error);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Save filter settings for an account (the active one, or the first when showing all accounts)
+   */
+  static async saveFilterSettings(filterSettings: FilterSettings, accountId?: string): Promise<boolean> {
     try {
       console.log('🔍 Saving filter settings:', filterSettings);
       console.log('🔍 Filter settings details:', {
@@ -133,7 +223,14 @@ export class SettingsStorage {
         subjectTypes: filterSettings.subjectTypes,
         reasons: filterSettings.reasons
       });
-      const result = await this.saveSettings({ filters: filterSettings });
+      const result = await this.updateSettings(settings => {
+        const targetId = this.resolveAccountId(settings, accountId);
+        return {
+          accounts: settings.accounts.map(account =>
+            account.id === targetId ? { ...account, filters: filterSettings } : account
+          )
+        };
+      });
       console.log('🔍 Save result:', result);
       return result;
     } catch (error) {
@@ -143,21 +240,97 @@ export class SettingsStorage {
   }
 
   /**
-   * Load filter settings
+   * Load filter settings for an account (the active one, or the first when showing all accounts)
    */
-  static async loadFilterSettings(): Promise<FilterSettings> {
+  static async loadFilterSettings(accountId?: string): Promise<FilterSettings> {
     try {
       const settings = await this.loadSettings();
-      console.log('📋 Loaded settings from storage:', settings);
-      console.log('🔍 Filter settings being returned:', settings.filters);
-      return settings.filters;
+      const targetId = this.resolveAccountId(settings, accountId);
+      const filters = settings.accounts.find(account => account.id === targetId)?.filters;
+      console.log('🔍 Filter settings being returned:', filters);
+      return filters || this.createDefaultAccount().filters;
     } catch (error) {
       console.error('❌ Failed to load filter settings:', error);
-      console.log('🔄 Returning default filter settings:', this.defaultSettings.filters);
-      return this.defaultSettings.filters;
+      return this.createDefaultAccount().filters;
     }
   }
 
+  /**
+   * Load the account profiles
+   */
+  static async loadAccounts(): Promise<AccountProfile[]> {
+    const settings = await this.loadSettings();
+    return settings.accounts;
+  }
+
+  /**
+   * Add an account profile, picking the next unused colour if none is given
+   */
+  static async addAccount(profile: { name: string; color?: string; host?: string }): Promise<AccountProfile | null> {
+    let account: AccountProfile | null = null;
+    const saved = await this.updateSettings(settings => {
+      const usedColors = settings.accounts.map(existing => existing.color);
+      const added: AccountProfile = {
+        id: `account-${Date.now().toString(36)}`,
+        name: profile.name,
+        color: profile.color || ACCOUNT_COLORS.find(color => !usedColors.includes(color)) || ACCOUNT_COLORS[0],
+        host: normalizeHost(profile.host),
+        filters: this.createDefaultAccount().filters
+      };
+      account = added;
+      return { accounts: [...settings.accounts, added] };
+    });
+    return saved ? account : null;
+  }
+
+  /**
+   * Update an account profile, e.g. rename it, move it to another host or record its token expiry
+   */
+  static async updateAccount(accountId: string, changes: AccountChanges): Promise<boolean> {
+    return await this.updateSettings(settings => ({
+      accounts: settings.accounts.map(account => {
+        if (account.id !== accountId) {
+          return account;
+        }
+        const updated = { ...account, ...changes };
+        return changes.host !== undefined ? { ...updated, host: normalizeHost(changes.host) } : updated;
+      })
+    }));
+  }
+
+  /**
+   * Remove an account profile, falling back to the merged inbox if it was the active one
+   */
+  static async removeAccount(accountId: string): Promise<boolean> {
+    return await this.updateSettings(settings => ({
+      accounts: settings.accounts.filter(account => account.id !== accountId),
+      activeAccountId: settings.activeAccountId === accountId ? null : settings.activeAccountId
+    }));
+  }
+
+  /**
+   * Choose the account shown in the popup, or null for all accounts
+   */
+  static async setActiveAccount(accountId: string | null): Promise<boolean> {
+    return await this.saveSettings({ activeAccountId: accountId });
+  }
+
+  /**
+   * Apply an imported settings file: an account's filters and the app settings, written together
+   * so a failure leaves neither half applied
+   */
+  static async applySettingsImport(filterSettings: FilterSettings, appSettings: AppSettings, accountId?: string): Promise<boolean> {
+    return await this.updateSettings(settings => {
+      const targetId = this.resolveAccountId(settings, accountId);
+      return {
+        accounts: settings.accounts.map(account =>
+          account.id === targetId ? { ...account, filters: filterSettings } : account
+        ),
+        app: appSettings
+      };
+    });
+  }
+
   /**
    * Save app settings
    */
@@ -185,14 +358,66 @@ export class SettingsStorage {
   }
 
   /**
-   * Reset settings to defaults
+   * Load the threads muted from OctoBar
    */
-  static async resetSettings(): Promise<boolean> {
+  static async loadMutedThreads(): Promise<MutedThread[]> {
+    const settings = await this.loadSettings();
+    return settings.mutedThreads;
+  }
+
+  /**
+   * Remember a muted thread so it can be unmuted from settings
+   */
+  static async addMutedThread(thread: MutedThread): Promise<boolean> {
+    const key = getMutedThreadKey(thread);
+    return await this.updateSettings(settings => ({
+      mutedThreads: [thread, ...settings.mutedThreads.filter(t => getMutedThreadKey(t) !== key)]
+    }));
+  }
+
+  /**
+   * Forget a muted thread after it has been unmuted
+   */
+  static async removeMutedThread(accountId: string, threadId: string): Promise<boolean> {
+    const key = getMutedThreadKey({ accountId, id: threadId });
+    return await this.updateSettings(settings => ({
+      mutedThreads: settings.mutedThreads.filter(t => getMutedThreadKey(t) !== key)
+    }));
+  }
+
+  /**
+   * Move preferences older versions kept in the keychain into the settings file. What the file
+   * already holds wins: legacy filters only fill a first account without any, and legacy app
+   * settings only apply when there was no settings file yet.
+   */
+  static async importLegacySettings(legacy: LegacyKeychainSettings): Promise<boolean> {
     try {
-      console.log('🔄 Resetting settings to defaults');
-      return await this.saveSettings(this.defaultSettings);
+      const isNewFile = !this.hasSettings();
+      const settings = await this.loadSettings();
+      const changes: Partial<Settings> = {};
+
+      const [firstAccount, ...otherAccounts] = settings.accounts;
+      const hasFilters = firstAccount && (firstAccount.filters.organizations.length > 0 || firstAccount.filters.repositories.length > 0);
+      if (legacy.filters && firstAccount && !hasFilters) {
+        changes.accounts = [
+          { ...firstAccount, filters: { ...firstAccount.filters, ...legacy.filters } },
+          ...otherAccounts
+        ];
+      }
+
+      if (legacy.general && isNewFile) {
+        const { savedAt, ...general } = legacy.general;
+        changes.app = { ...settings.app, ...general } as AppSettings;
+      }
+
+      // Legacy values were never validated, so repair them rather than reject the import
+      const { settings: imported, issues } = validateSettings({ ...settings, ...changes }, this.defaultSettings);
+      this.reportIssues(issues);
+
+      console.log('📦 Importing legacy keychain settings:', Object.keys(changes));
+      return await this.saveSettings(imported);
     } catch (error) {
-      console.error('❌ Failed to reset settings:', error);
+      console.error('❌ Failed to import legacy settings:', error);
       return false;
     }
   }
@@ -205,36 +430,170 @@ export class SettingsStorage {
   }
 
   /**
-   * Delete settings file
+   * Pick the account an account-scoped call acts on when the caller doesn't name one: the
+   * active account, or the first account while all are shown
    */
-  static async deleteSettings(): Promise<boolean> {
-    try {
-      if (fs.existsSync(this.settingsPath)) {
-        fs.unlinkSync(this.settingsPath);
-        console.log('🗑️ Settings file deleted');
-      }
-      return true;
-    } catch (error) {
-      console.error('❌ Failed to delete settings file:', error);
-      return false;
-    }
+  static async resolveTargetAccountId(accountId?: string): Promise<string> {
+    return accountId || this.resolveAccountId(await this.loadSettings());
   }
 
   /**
-   * Merge loaded settings with defaults to handle missing properties
+   * Pick the account filter settings apply to when the caller doesn't name one
    */
-  private static mergeWithDefaults(settings: any): Settings {
+  private static resolveAccountId(settings: Settings, accountId?: string): string {
+    return accountId || settings.activeAccountId || settings.accounts[0]?.id || DEFAULT_ACCOUNT_ID;
+  }
+
+  private static createDefaultAccount(): AccountProfile {
     return {
+      id: DEFAULT_ACCOUNT_ID,
+      name: 'GitHub',
+      color: ACCOUNT_COLORS[0],
+      host: DEFAULT_GITHUB_HOST,
       filters: {
-        ...this.defaultSettings.filters,
-        ...(settings.filters || {})
-      },
-      app: {
-        ...this.defaultSettings.app,
-        ...(settings.app || {})
-      },
-      version: settings.version || this.defaultSettings.version,
-      lastUpdated: settings.lastUpdated || new Date().toISOString()
+        organizations: [],
+        repositories: [],
+        subjectTypes: [],
+        reasons: []
+      }
     };
   }
+
+  /**
+   * Apply a change computed from the latest settings. Changes run one at a time, so concurrent
+   * IPC calls can't read the same settings and overwrite each other's changes.
+   */
+  private static async updateSettings(change: (settings: Settings) => Partial<Settings>): Promise<boolean> {
+    return await this.enqueue(async () => {
+      try {
+        console.log(`💾 Saving settings to: ${this.settingsPath}`);
+
+        // Load current settings and merge with new ones
+        const currentSettings = await this.loadSettings();
+        if (this.unreadableError) {
+          console.error('❌ Not saving settings over a file that could not be read:', this.unreadableError);
+          return false;
+        }
+
+        const { settings: mergedSettings, issues } = validateSettings({
+          ...currentSettings,
+          ...change(currentSettings),
+          lastUpdated: new Date().toISOString()
+        }, this.defaultSettings);
+
+        // What's on disk was already repaired, so any invalid value comes from this save
+        this.reportIssues(issues);
+        if (issues.some(issue => issue.kind === 'invalid')) {
+          console.error('❌ Refusing to save invalid settings');
+          return false;
+        }
+
+        this.rotateBackups();
+        this.writeAtomically(JSON.stringify(mergedSettings, null, 2));
+
+        console.log('✅ Settings saved successfully');
+        return true;
+      } catch (error) {
+        console.error('❌ Failed to save settings:', error);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Run a task after every task queued before it has finished
+   */
+  private static enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Read, migrate and validate a settings file, throwing if it isn't valid JSON
+   */
+  private static readSettingsFile(filePath: string): Settings {
+    const data = fs.readFileSync(filePath, 'utf8');
+    console.log('📁 Raw settings file content:', data);
+    // Older files are migrated, then invalid values are repaired and unknown keys dropped.
+    // The file itself is rewritten on the next save.
+    const { settings, issues } = validateSettings(migrateSettings(JSON.parse(data)), this.defaultSettings);
+    this.reportIssues(issues);
+    return settings;
+  }
+
+  /**
+   * Write to a temporary file and rename it over the settings file, so a crash mid-write
+   * leaves either the old file or the new one
+   */
+  private static writeAtomically(data: string): void {
+    fs.mkdirSync(path.dirname(this.settingsPath), { recursive: true });
+
+    const tempPath = `${this.settingsPath}.tmp`;
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeFileSync(fd, data);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, this.settingsPath);
+  }
+
+  private static getBackupPath(index: number): string {
+    return `${this.settingsPath}.bak.${index}`;
+  }
+
+  /**
+   * Keep the file as it was before this save as backup 1, shifting older backups along
+   */
+  private static rotateBackups(): void {
+    if (!fs.existsSync(this.settingsPath)) {
+      return;
+    }
+
+    for (let index = BACKUP_COUNT - 1; index >= 1; index--) {
+      if (fs.existsSync(this.getBackupPath(index))) {
+        fs.renameSync(this.getBackupPath(index), this.getBackupPath(index + 1));
+      }
+    }
+    fs.copyFileSync(this.settingsPath, this.getBackupPath(1));
+  }
+
+  /**
+   * Backups that can still be read, newest first
+   */
+  private static listReadableBackups(): SettingsBackup[] {
+    const backups: SettingsBackup[] = [];
+    for (let index = 1; index <= BACKUP_COUNT; index++) {
+      const backupPath = this.getBackupPath(index);
+      try {
+        this.readSettingsFile(backupPath);
+        backups.push({ path: backupPath, savedAt: fs.statSync(backupPath).mtime.toISOString() });
+      } catch {
+        // Missing or unreadable too
+      }
+    }
+    return backups;
+  }
+
+  /**
+   * Rename an unreadable settings file so it's kept for inspection but no longer loaded
+   */
+  private static setAsideUnreadableFile(): void {
+    if (fs.existsSync(this.settingsPath)) {
+      const keptPath = `${this.settingsPath}.unreadable-${Date.now()}`;
+      fs.renameSync(this.settingsPath, keptPath);
+      console.log(`📁 Unreadable settings kept as ${keptPath}`);
+    }
+  }
+
+  /**
+   * Log settings that were repaired or dropped
+   */
+  private static reportIssues(issues: SettingsIssue[]): void {
+    for (const issue of issues) {
+      console.warn(`⚠️ Setting ${issue.path}: ${issue.message}`);
+    }
+  }
 }
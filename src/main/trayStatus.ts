@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { nativeImage } from 'electron';
+import { NotificationPollState } from './notificationPoller';
+import { getReasonInfo } from './notificationCatalog';
+
+export type TrayIconState = 'idle' | 'unread' | 'error' | 'offline';
+
+// Windows truncates tray tooltips at 127 characters
+const MAX_TOOLTIP_LENGTH = 127;
+
+const DEFAULT_TOOLTIP = 'OctoBar - GitHub Notifications';
+
+const iconCache = new Map<TrayIconState, Electron.NativeImage>();
+
+/**
+ * Pick the tray icon variant for the current poll state
+ */
+export function getTrayIconState(state: NotificationPollState): TrayIconState {
+  if (state.errorKind === 'offline') {
+    return 'offline';
+  }
+  if (state.errorKind) {
+    return 'error';
+  }
+  return state.unreadCount > 0 ? 'unread' : 'idle';
+}
+
+/**
+ * Load a tray icon variant, falling back to the source assets in development
+ */
+export function getTrayIcon(iconState: TrayIconState): Electron.NativeImage {
+  const cached = iconCache.get(iconState);
+  if (cached) {
+    return cached;
+  }
+
+  const fileName = `tray-${iconState}.png`;
+  const candidates = [
+    path.join(__dirname, 'renderer', 'tray', fileName),
+    path.join(__dirname, '../src/renderer/public/tray', fileName)
+  ];
+  const iconPath = candidates.find(candidate => fs.existsSync(candidate));
+
+  const icon = iconPath ? nativeImage.createFromPath(iconPath) : nativeImage.createEmpty();
+  if (iconPath) {
+    // Error keeps its colour so it stands out in the macOS menu bar
+    icon.setTemplateImage(process.platform === 'darwin' && iconState !== 'error');
+  } else {
+    console.warn(`Tray icon not found: ${fileName}`);
+  }
+
+  iconCache.set(iconState, icon);
+  return icon;
+}
+
+/**
+ * Count unread notifications per reason, e.g. "3 review requests, 2 mentions"
+ */
+export function formatReasonBreakdown(notifications: any[]): string {
+  const counts = new Map<string, number>();
+  notifications.forEach(notification => {
+    const reason = getReasonInfo(notification.reason).value;
+    counts.set(reason, (counts.get(reason) || 0) + 1);
+  });
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([reason, count]) => {
+      const [singular, plural] = getReasonInfo(reason).noun;
+      return `${count} ${count === 1 ? singular : plural}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Unread count per account, e.g. "Work 3 · Personal 2", with a marker for accounts that failed to load
+ */
+export function formatAccountBreakdown(state: NotificationPollState): string {
+  return state.accounts
+    .map(account => `${account.name} ${account.error ? '⚠️' : account.unreadCount}`)
+    .join(' · ');
+}
+
+/**
+ * Build the tray tooltip text for the current poll state
+ */
+export function buildTrayTooltip(state: NotificationPollState): string {
+  let tooltip: string;
+
+  if (state.errorKind === 'auth') {
+    tooltip = 'OctoBar - Authentication failed, update your token in Settings';
+  } else if (state.errorKind === 'offline') {
+    tooltip = 'OctoBar - Offline, waiting for a connection';
+  } else if (state.errorKind === 'rate-limit') {
+    const resetAt = state.rateLimit ? new Date(state.rateLimit.resetAt).toLocaleTimeString() : 'later';
+    tooltip = `OctoBar - GitHub rate limit reached, resuming after ${resetAt}`;
+  } else if (state.errorKind) {
+    tooltip = 'OctoBar - Failed to load notifications';
+  } else if (!state.lastUpdated) {
+    tooltip = DEFAULT_TOOLTIP;
+  } else if (state.unreadCount === 0) {
+    tooltip = 'OctoBar - No unread notifications';
+  } else {
+    const noun = state.unreadCount === 1 ? 'notification' : 'notifications';
+    tooltip = `OctoBar - ${state.unreadCount} unread ${noun}\n${formatReasonBreakdown(state.notifications)}`;
+  }
+
+  // With several accounts the per-account counts come first so they survive truncation
+  if (state.accounts.length > 1 && state.lastUpdated) {
+    const [summary, ...details] = tooltip.split('\n');
+    tooltip = [summary, formatAccountBreakdown(state), ...details].join('\n');
+  }
+
+  return tooltip.length > MAX_TOOLTIP_LENGTH
+    ? tooltip.substring(0, MAX_TOOLTIP_LENGTH - 3) + '...'
+    : tooltip;
+}
@@ -1,6 +1,9 @@
-import { useState, useEffect, useRef } from 'react';
-import { NotificationGroup, NotificationSubjectType, NotificationReason } from './types/notifications';
-import { GitHubService } from './services/githubService';
+import { useState, useEffect } from 'react';
+import { AppNotification, NotificationGroup, NotificationSubjectType, NotificationReason, NotificationPollState, RateLimitInfo, OpenInBrowserAction, SubjectDetails, AccountProfile, GitHubActionResult } from './types/notifications';
+import { buildNotificationUrl } from './services/notificationUrls';
+import { getWebBaseUrl } from './services/githubHosts';
+import { getNotificationKey } from './services/notificationKeys';
+import { getSubjectTypeInfo } from './services/notificationCatalog';
 import { NotificationList } from './components/NotificationList';
 
 // Simple logging utility with timestamps
@@ -13,11 +16,14 @@ import { Header } from './components/Header';
 import { SetupWizard } from './components/SetupWizard';
 import { FilterSettingsModal } from './components/FilterSettingsModal';
 import { SettingsModal } from './components/SettingsModal';
+import { ReauthScreen } from './components/ReauthScreen';
 import { ThemeProvider } from './contexts/ThemeContext';
-import { useBackgroundRefresh } from './hooks/useBackgroundRefresh';
 import { notificationService } from './services/notificationService';
 import './App.css';
 
+// API requests to leave untouched by bulk actions so background polling keeps working
+const RATE_LIMIT_RESERVE = 50;
+
 function App() {
   const [notifications, setNotifications] = useState<NotificationGroup[]>([]);
   const [loading, setLoading] = useState(true);
@@ -25,7 +31,9 @@ function App() {
   const [unreadCount, setUnreadCount] = useState(0);
   const [showSetupWizard, setShowSetupWizard] = useState(false);
   const [setupComplete, setSetupComplete] = useState(false);
-  const [githubService, setGithubService] = useState<GitHubService | null>(null);
+  const [accounts, setAccounts] = useState<AccountProfile[]>([]);
+  // Account shown in the popup, or null for the merged inbox
+  const [activeAccountId, setActiveAccountId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showFilterSettings, setShowFilterSettings] = useState(false);
   const [showGeneralSettings, setShowGeneralSettings] = useState(false);
@@ -33,23 +41,17 @@ function App() {
   const [selectedRepos, setSelectedRepos] = useState<string[]>([]);
   const [selectedSubjectTypes, setSelectedSubjectTypes] = useState<NotificationSubjectType[]>([]);
   const [selectedReasons, setSelectedReasons] = useState<NotificationReason[]>([]);
-  const [refreshInterval, setRefreshInterval] = useState<number>(5); // Default 5 minutes
-  const [markedAsReadIds, setMarkedAsReadIds] = useState<Set<string>>(new Set());
+  const [markedAsReadKeys, setMarkedAsReadKeys] = useState<Set<string>>(new Set());
   const [notificationSettings, setNotificationSettings] = useState({
     enableSound: true,
     enableDesktopNotifications: true
   });
-  const [previousNotificationCount, setPreviousNotificationCount] = useState<number>(0);
-  // Track previously seen notification IDs to detect true "new" items even when count stays the same
-  const previousIdsRef = useRef<Set<string>>(new Set());
-  const lastSeenUpdatedAtRef = useRef<string | null>(null);
-
-  // Background refresh hook
-  useBackgroundRefresh({
-    refreshInterval,
-    onRefresh: () => loadNotifications(selectedOrgs, selectedRepos, selectedSubjectTypes, selectedReasons),
-    enabled: setupComplete && !!githubService
-  });
+  // Latest snapshot from the main-process poller, which owns refreshing and new-notification alerts
+  const [pollState, setPollState] = useState<NotificationPollState | null>(null);
+  const [rateLimit, setRateLimit] = useState<RateLimitInfo | null>(null);
+  const [openInBrowserAction, setOpenInBrowserAction] = useState<OpenInBrowserAction>('read');
+  // Account the user chose to re-authenticate while its other accounts still work
+  const [reauthAccountId, setReauthAccountId] = useState<string | null>(null);
 
   useEffect(() => {
     checkSetupStatus();
@@ -61,35 +63,67 @@ function App() {
   }, [notificationSettings]);
 
   useEffect(() => {
-    if (!showSetupWizard && setupComplete && githubService) {
+    if (!showSetupWizard && setupComplete) {
       log('🔄 App initialization: Loading settings and filters...');
-      // Load settings first, then filter settings, then notifications
-      loadSettings().then(() => {
-        log('⚙️ Settings loaded, now loading filter settings...');
-        loadFilterSettings().then((filterSettings) => {
-          log('🔍 Filter settings loaded, now loading notifications with filters:', filterSettings);
-          loadNotifications(filterSettings.organizations, filterSettings.repositories, filterSettings.subjectTypes, filterSettings.reasons);
-        });
+      loadSettings();
+      loadFilterSettings();
+
+      // Subscribe to poll results pushed from the main process, then pick up whatever it already has
+      const unsubscribe = window.electronAPI.onNotificationUpdate((state) => {
+        log(`📨 Notification update from main process: ${state.notifications.length} notifications`);
+        setPollState(state);
       });
+      loadNotifications();
+
+      return unsubscribe;
+    }
+  }, [showSetupWizard, setupComplete]);
+
+  // Rebuild the list whenever the poller delivers new results or local read tracking changes
+  useEffect(() => {
+    if (!pollState) return;
+
+    setLoading(pollState.isRefreshing && !pollState.lastUpdated);
+    if (pollState.rateLimit) {
+      setRateLimit(pollState.rateLimit);
+    }
+    setError(pollState.error ? `Failed to load notifications: ${pollState.error}` : null);
+
+    const groupedNotifications = transformGitHubNotifications(pollState.notifications, pollState.subjectDetails);
+    setNotifications(groupedNotifications);
+
+    // Calculate unread count based on the filtered notifications
+    const count = groupedNotifications.reduce((total, group) => total + group.notifications.length, 0);
+    setUnreadCount(count);
+    log(`✅ Showing ${count} unread notifications, grouped into ${groupedNotifications.length} repositories`);
+  }, [pollState, markedAsReadKeys, activeAccountId, accounts]);
+
+  /**
+   * Load the account profiles and count how many have a stored token
+   */
+  const loadAccounts = async (): Promise<number> => {
+    const { accounts: profiles, activeAccountId: activeId } = await window.electronAPI.getAccounts();
+    let accountsWithToken = 0;
+    for (const account of profiles) {
+      if (await window.electronAPI.hasPAT(account.id)) {
+        accountsWithToken++;
+      }
     }
-  }, [showSetupWizard, setupComplete, githubService]);
+
+    setAccounts(profiles);
+    setActiveAccountId(activeId);
+    log(`👥 Loaded ${profiles.length} accounts, ${accountsWithToken} with a token`);
+    return accountsWithToken;
+  };
 
   const checkSetupStatus = async () => {
     try {
-      const hasPAT = await window.electronAPI.hasPAT();
-      if (!hasPAT) {
+      const accountsWithToken = await loadAccounts();
+      if (accountsWithToken === 0) {
         setShowSetupWizard(true);
       } else {
-        // Initialize GitHub service with stored PAT
-        const pat = await window.electronAPI.getPAT();
-        if (pat) {
-          const service = new GitHubService(pat);
-          setGithubService(service);
-          setSetupComplete(true);
-          setLoading(false);
-        } else {
-          setShowSetupWizard(true);
-        }
+        setSetupComplete(true);
+        setLoading(false);
       }
     } catch (error) {
       console.error('Failed to check setup status:', error);
@@ -100,31 +134,23 @@ function App() {
   const loadSettings = async () => {
     try {
       log('⚙️ Loading app settings...');
-      if ((window.electronAPI as any)?.getSettings) {
-        const settings = await (window.electronAPI as any).getSettings();
-        
-        // Load refresh interval
-        if (settings?.refreshInterval) {
-          setRefreshInterval(settings.refreshInterval);
-          log(`✅ Refresh interval loaded: ${settings.refreshInterval} minutes`);
-        } else {
-          log('ℹ️ No refresh interval found in settings, using default: 5 minutes');
-        }
+      const settings = await window.electronAPI.getSettings();
 
-        // Load notification settings
-        if (settings?.enableSound !== undefined || settings?.enableDesktopNotifications !== undefined) {
-          const newNotificationSettings = {
-            enableSound: settings.enableSound ?? true,
-            enableDesktopNotifications: settings.enableDesktopNotifications ?? true
-          };
-          setNotificationSettings(newNotificationSettings);
-          notificationService.updateSettings(newNotificationSettings);
-          log('✅ Notification settings loaded:', newNotificationSettings);
-        } else {
-          log('ℹ️ No notification settings found, using defaults');
-        }
+      // Load notification settings
+      if (settings?.enableSound !== undefined || settings?.enableDesktopNotifications !== undefined) {
+        const newNotificationSettings = {
+          enableSound: settings.enableSound ?? true,
+          enableDesktopNotifications: settings.enableDesktopNotifications ?? true
+        };
+        setNotificationSettings(newNotificationSettings);
+        notificationService.updateSettings(newNotificationSettings);
+        log('✅ Notification settings loaded:', newNotificationSettings);
       } else {
-        log('❌ getSettings method not available');
+        log('ℹ️ No notification settings found, using defaults');
+      }
+
+      if (settings?.openInBrowserAction) {
+        setOpenInBrowserAction(settings.openInBrowserAction);
       }
     } catch (error) {
       console.error('❌ Failed to load settings:', error);
@@ -133,12 +159,10 @@ function App() {
 
   const handleSetupComplete = async () => {
     try {
-      // Save the PAT that was entered during setup
-      const pat = await window.electronAPI.getPAT();
-      if (pat) {
+      // The wizard saved the PAT for the first account
+      const accountsWithToken = await loadAccounts();
+      if (accountsWithToken > 0) {
         log('Setup completed successfully. PAT saved and retrieved.');
-        const service = new GitHubService(pat);
-        setGithubService(service);
         setShowSetupWizard(false);
         setSetupComplete(true);
         setLoading(false);
@@ -150,208 +174,64 @@ function App() {
     }
   };
 
-  const loadNotifications = async (
-    customFilterOrgs?: string[], 
-    customFilterRepos?: string[], 
-    customFilterSubjectTypes?: NotificationSubjectType[], 
-    customFilterReasons?: NotificationReason[]
-  ) => {
-    if (!githubService) {
-      console.error('GitHub service not initialized');
-      return;
-    }
-
-    log('🔄 Loading notifications from GitHub API...');
-    setLoading(true);
-    setError(null);
-    
+  const loadNotifications = async () => {
+    log('🔄 Loading notifications from the main-process poller...');
     try {
-      // Get real notifications from GitHub with cache busting
-      const params = {
-        all: false, // Only unread notifications
-        participating: false,
-        per_page: 100,
-        // Add a timestamp to ensure fresh data
-        since: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString() // Get notifications from last 7 days
-      };
-      
-      // Use custom filter parameters if provided, otherwise use current state
-      const filterOrgs = customFilterOrgs !== undefined ? customFilterOrgs : selectedOrgs;
-      const filterRepos = customFilterRepos !== undefined ? customFilterRepos : selectedRepos;
-      const filterSubjectTypes = customFilterSubjectTypes !== undefined ? customFilterSubjectTypes : selectedSubjectTypes;
-      const filterReasons = customFilterReasons !== undefined ? customFilterReasons : selectedReasons;
-      
-      log('🔍 Filter parameters for API call:', {
-        customFilterOrgs,
-        customFilterRepos,
-        customFilterSubjectTypes,
-        customFilterReasons,
-        selectedOrgs,
-        selectedRepos,
-        selectedSubjectTypes,
-        selectedReasons,
-        finalFilterOrgs: filterOrgs,
-        finalFilterRepos: filterRepos,
-        finalFilterSubjectTypes: filterSubjectTypes,
-        finalFilterReasons: filterReasons
-      });
-      
-      // Add filter parameters to the API call
-      const apiParams = {
-        ...params,
-        filterOrgs: filterOrgs,
-        filterRepos: filterRepos,
-        filterSubjectTypes: filterSubjectTypes,
-        filterReasons: filterReasons
-      };
-      
-      const rawNotifications = await githubService.getNotifications(apiParams);
-      log(`📨 Received ${rawNotifications.length} notifications from GitHub`);
-
-      // Transform GitHub notifications to our format
-      const groupedNotifications = transformGitHubNotifications(rawNotifications);
-      setNotifications(groupedNotifications);
-      
-      // Calculate unread count based on the filtered notifications
-      const count = groupedNotifications.reduce((total, group) => total + group.notifications.length, 0);
-      setUnreadCount(count);
-      log(`✅ Loaded ${count} unread notifications, grouped into ${groupedNotifications.length} repositories`);
-      
-      // Keep local tracking persistent - only clear when user manually refreshes
-      // This ensures notifications stay hidden until the user explicitly refreshes
-      log(`🔍 Local tracking: ${markedAsReadIds.size} notifications marked as read locally`);
-
-      // Check for new notifications and trigger alerts
-      // 1) Prefer ID-diff based detection so we catch new items even when the total count stays constant
-      // 2) Keep the existing count-based check as a fallback
-      log(`🔍 Notification count comparison: previous=${previousNotificationCount}, current=${count}`);
-
-      const currentIds = new Set<string>(rawNotifications.map(n => String(n.id)));
-      let newIds: string[] = [];
-      if (previousIdsRef.current.size > 0) {
-        for (const id of currentIds) {
-          if (!previousIdsRef.current.has(id)) {
-            newIds.push(id);
-          }
-        }
-      }
-
-      if (newIds.length > 0) {
-        log(`🔔 Detected ${newIds.length} brand new notifications by ID`);
-        const newestNotifications = rawNotifications.filter(n => newIds.includes(String(n.id)));
-        await notificationService.notifyNewNotifications(newIds.length, undefined, newestNotifications);
-      } else {
-        // Detect updates to existing threads (same ID but newer updated_at)
-        let updatedItems: any[] = [];
-        if (lastSeenUpdatedAtRef.current) {
-          const lastSeenTs = new Date(lastSeenUpdatedAtRef.current).getTime();
-          updatedItems = rawNotifications.filter(n => {
-            const ts = new Date(n.updated_at as string).getTime();
-            return ts > lastSeenTs;
-          });
-        }
-
-        if (updatedItems.length > 0) {
-          log(`🔔 Detected ${updatedItems.length} updated notifications by timestamp`);
-          await notificationService.notifyNewNotifications(updatedItems.length, undefined, updatedItems);
-        } else if (previousNotificationCount > 0 && count > previousNotificationCount) {
-          const newNotifications = count - previousNotificationCount;
-          log(`🔔 ${newNotifications} new notifications detected by count`);
-          const newestNotifications = rawNotifications.slice(0, newNotifications);
-          await notificationService.notifyNewNotifications(newNotifications, undefined, newestNotifications);
-        } else if (previousNotificationCount === 0 && count > 0) {
-          // First time loading notifications - don't show notification for existing ones
-          log(`🔔 First load: ${count} existing notifications found (not showing notification)`);
-        } else if (previousNotificationCount > 0 && count <= previousNotificationCount) {
-          log(`🔔 No new notifications: count stayed the same or decreased (${previousNotificationCount} → ${count})`);
-        }
-      }
-      
-      // Update previous count for next comparison
-      setPreviousNotificationCount(count);
-
-      // Update seen IDs and latest updatedAt for next diff
-      previousIdsRef.current = currentIds;
-      const latestUpdatedAt = rawNotifications
-        .map(n => n.updated_at as string)
-        .filter(Boolean)
-        .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0] || null;
-      lastSeenUpdatedAtRef.current = latestUpdatedAt;
+      const state = await window.electronAPI.getNotificationState();
+      // Nothing polled yet (e.g. setup just completed), so ask for a fresh fetch
+      setPollState(state.lastUpdated ? state : await window.electronAPI.refreshNotifications());
     } catch (error) {
       console.error('Failed to load notifications:', error);
-      if (error instanceof Error) {
-        setError(`Failed to load notifications: ${error.message}`);
-      } else {
-        setError('Failed to load notifications');
-      }
-    } finally {
+      setError('Failed to load notifications');
       setLoading(false);
     }
   };
 
-  const transformGitHubNotifications = (rawNotifications: any[]): NotificationGroup[] => {
-    // Filter out notifications that we've marked as read locally
+  const transformGitHubNotifications = (rawNotifications: any[], subjectDetails: Record<string, SubjectDetails> = {}): NotificationGroup[] => {
+    // Filter out notifications that we've marked as read locally or that belong to another account
     const filteredNotifications = rawNotifications.filter(notification => {
-      const notificationId = notification.id.toString();
-      const isMarkedAsRead = markedAsReadIds.has(notificationId);
+      if (activeAccountId && notification.account_id !== activeAccountId) {
+        return false;
+      }
+
+      const notificationKey = getNotificationKey(notification);
+      const isMarkedAsRead = markedAsReadKeys.has(notificationKey);
       if (isMarkedAsRead) {
-        log(`🔍 Filtering out locally marked notification: ${notificationId}`);
+        log(`🔍 Filtering out locally marked notification: ${notificationKey}`);
       }
       return !isMarkedAsRead;
     });
     
     log(`🔍 Filtered notifications: ${rawNotifications.length} → ${filteredNotifications.length} (removed ${rawNotifications.length - filteredNotifications.length} locally marked as read)`);
     
-    // Helper function to build the HTML URL for a notification
-    const buildNotificationUrl = (notification: any): string => {
-      const repoName = notification.repository.full_name;
-      const subjectType = notification.subject.type;
-      const subjectUrl = notification.subject.url;
-      
-      // Extract the number from the API URL (e.g., /repos/owner/repo/issues/123)
-      const urlParts = subjectUrl.split('/');
-      const number = urlParts[urlParts.length - 1];
-      
-      // Build the HTML URL based on the subject type
-      switch (subjectType) {
-        case 'Issue':
-          return `https://github.com/${repoName}/issues/${number}`;
-        case 'PullRequest':
-          return `https://github.com/${repoName}/pull/${number}`;
-        case 'Commit':
-          return `https://github.com/${repoName}/commit/${number}`;
-        case 'Release':
-          return `https://github.com/${repoName}/releases/tag/${number}`;
-        case 'Discussion':
-          return `https://github.com/${repoName}/discussions/${number}`;
-        default:
-          return `https://github.com/${repoName}`;
-      }
-    };
-
-    // Group notifications by repository
-    const grouped: { [key: string]: any[] } = {};
+    // Group notifications by account and repository
+    const grouped: { [key: string]: AppNotification[] } = {};
     
+    const webBaseUrls = new Map(accounts.map(account => [account.id, getWebBaseUrl(account.host)]));
     filteredNotifications.forEach(notification => {
-      const repoName = notification.repository.full_name;
-      if (!grouped[repoName]) {
-        grouped[repoName] = [];
+      const groupKey = `${notification.account_id}:${notification.repository.full_name}`;
+      if (!grouped[groupKey]) {
+        grouped[groupKey] = [];
       }
-      grouped[repoName].push({
+      grouped[groupKey].push({
         id: notification.id.toString(),
+        key: getNotificationKey(notification),
         title: notification.subject.title,
-        type: notification.subject.type,
+        type: getSubjectTypeInfo(notification.subject.type).value,
         repository: notification.repository.full_name,
         updatedAt: notification.updated_at,
         unread: !notification.read_at,
-        url: buildNotificationUrl(notification), // Build proper HTML URL
-        reason: notification.reason
+        url: buildNotificationUrl(notification, webBaseUrls.get(notification.account_id)), // Build proper HTML URL on the account's host
+        reason: notification.reason,
+        details: subjectDetails[getNotificationKey(notification)],
+        accountId: notification.account_id
       });
     });
 
     // Convert to array format
-    return Object.entries(grouped).map(([repoName, notifications]) => ({
-      repository: repoName,
+    return Object.values(grouped).map(notifications => ({
+      repository: notifications[0].repository,
+      accountId: notifications[0].accountId,
       notifications: notifications.sort((a, b) => 
         new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
       )
@@ -362,19 +242,46 @@ function App() {
 
 
 
-  const handleMarkAsRead = async (notificationId: string) => {
-    if (!githubService) return;
+  /**
+   * Find a visible notification, which knows the account it belongs to
+   */
+  const findNotification = (notificationKey: string): AppNotification | null => {
+    return notifications
+      .flatMap(group => group.notifications)
+      .find(notif => notif.key === notificationKey) ?? null;
+  };
+
+  /**
+   * The account closest to its rate limit decides what the popup warns about
+   */
+  const updateRateLimit = async () => {
+    const rateLimits = await window.electronAPI.getRateLimits();
+    const lowest = Object.values(rateLimits)
+      .filter((limit): limit is RateLimitInfo => limit !== null)
+      .sort((a, b) => a.remaining - b.remaining)[0];
+    if (lowest) {
+      setRateLimit(lowest);
+    }
+  };
+
+  const handleMarkAsRead = async (notificationKey: string) => {
+    const notification = findNotification(notificationKey);
+    if (!notification) return;
     
     try {
       // Mark as read on GitHub
-      await githubService.markNotificationAsRead(notificationId);
+      const result = await window.electronAPI.markThreadAsRead(notification.accountId, notification.id);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      await window.electronAPI.dismissNotifications([notificationKey]);
       
       // Update local state immediately
       setNotifications(prevNotifications => {
         const updated = prevNotifications.map(group => ({
           ...group,
           notifications: group.notifications.map(notification => 
-            notification.id === notificationId 
+            notification.key === notificationKey 
               ? { ...notification, unread: false }
               : notification
           )
@@ -393,109 +300,293 @@ function App() {
     }
   };
 
+  const handleMarkAsDone = async (notificationKey: string) => {
+    const notification = findNotification(notificationKey);
+    if (!notification) return;
+
+    try {
+      // Done removes the thread from the GitHub inbox, not just the unread list
+      const result = await window.electronAPI.markThreadAsDone(notification.accountId, notification.id);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      await window.electronAPI.dismissNotifications([notificationKey]);
+      setMarkedAsReadKeys(prev => new Set(prev).add(notificationKey));
+    } catch (error) {
+      console.error('Failed to mark as done:', error);
+    }
+  };
+
+  const handleNotificationOpened = (notificationKey: string) => {
+    // Follow the user's preference for what opening a notification means
+    if (openInBrowserAction === 'read') {
+      handleMarkAsRead(notificationKey);
+    } else if (openInBrowserAction === 'done') {
+      handleMarkAsDone(notificationKey);
+    }
+  };
+
+  const handleMuteThread = async (notification: AppNotification) => {
+    try {
+      log(`🔕 Muting thread ${notification.id}...`);
+      const muted = await window.electronAPI.muteThread({
+        id: notification.id,
+        title: notification.title,
+        repository: notification.repository,
+        type: notification.type,
+        accountId: notification.accountId
+      });
+
+      if (!muted) {
+        console.error('Failed to mute thread:', notification.id);
+        return;
+      }
+
+      // The main process has marked the thread read and dropped it from the poll results
+      setMarkedAsReadKeys(prev => new Set(prev).add(notification.key));
+    } catch (error) {
+      console.error('Failed to mute thread:', error);
+    }
+  };
+
+  /**
+   * Apply a per-thread action to many notifications, stopping an account early if its rate limit runs out
+   */
+  const applyBulkAction = async (
+    targets: AppNotification[],
+    actionLabel: 'read' | 'done',
+    action: (accountId: string, notificationId: string) => Promise<GitHubActionResult>
+  ) => {
+    const title = actionLabel === 'read' ? 'Read' : 'Done';
+    const tag = `mark-all-${actionLabel}`;
+
+    // Refuse up front rather than burning an account's budget and failing halfway through
+    const rateLimits = await window.electronAPI.getRateLimits();
+    const countsByAccount = new Map<string, number>();
+    targets.forEach(target => countsByAccount.set(target.accountId, (countsByAccount.get(target.accountId) || 0) + 1));
+    for (const [accountId, count] of countsByAccount) {
+      const budget = rateLimits[accountId] ?? rateLimit;
+      if (budget && budget.remaining - RATE_LIMIT_RESERVE < count) {
+        const accountName = accounts.find(account => account.id === accountId)?.name || accountId;
+        log(`⛔ Not enough API budget for ${accountName}: ${budget.remaining} requests left for ${count} notifications`);
+        await notificationService.notify({
+          title: 'Not Enough GitHub API Budget',
+          body: `Marking ${count} notifications for ${accountName} needs ${count} requests, but only ${budget.remaining} remain until ${new Date(budget.resetAt).toLocaleTimeString()}. Narrow your filters or try again later.`,
+          tag
+        });
+        return;
+      }
+    }
+
+    // Apply the action to each notification individually
+    const markedKeys: string[] = [];
+    const errors: string[] = [];
+    let rateLimitFailure: GitHubActionResult | null = null;
+    const rateLimitedAccounts = new Set<string>();
+
+    for (const target of targets) {
+      // Every remaining call for this account would fail the same way until its budget resets
+      if (rateLimitedAccounts.has(target.accountId)) {
+        continue;
+      }
+
+      log(`🔍 Marking notification ${target.id} as ${actionLabel}...`);
+      const result = await action(target.accountId, target.id);
+      if (result.success) {
+        markedKeys.push(target.key);
+        log(`✅ Successfully marked notification ${target.id} as ${actionLabel}`);
+
+        // Add a small delay to avoid rate limiting
+        if (markedKeys.length % 10 === 0) {
+          await new Promise(resolve => setTimeout(resolve, 100));
+        }
+      } else {
+        const errorMsg = `Failed to mark notification ${target.id} as ${actionLabel}: ${result.error || 'Unknown error'}`;
+        log(`❌ ${errorMsg}`);
+        errors.push(errorMsg);
+
+        if (result.rateLimited) {
+          rateLimitFailure = result;
+          rateLimitedAccounts.add(target.accountId);
+        }
+      }
+    }
+    await updateRateLimit();
+
+    if (errors.length > 0) {
+      log(`⚠️ ${errors.length} notifications failed to be marked as ${actionLabel}:`, errors);
+    }
+
+    log(`✅ Marked ${markedKeys.length} out of ${targets.length} notifications as ${actionLabel}`);
+
+    // Show user feedback
+    if (rateLimitFailure) {
+      const resetAt = rateLimitFailure.rateLimit ? new Date(rateLimitFailure.rateLimit.resetAt).toLocaleTimeString() : 'later';
+      await notificationService.notify({
+        title: 'GitHub Rate Limit Reached',
+        body: `Marked ${markedKeys.length} out of ${targets.length} notifications as ${actionLabel}. Try again after ${resetAt} for the rest.`,
+        tag
+      });
+    } else if (markedKeys.length > 0) {
+      await notificationService.notify({
+        title: `Notifications Marked as ${title}`,
+        body: `Marked ${markedKeys.length} out of ${targets.length} notifications as ${actionLabel}`,
+        tag
+      });
+    }
+
+    // Update local state immediately by removing the marked notifications
+    if (markedKeys.length > 0) {
+      setMarkedAsReadKeys(prev => {
+        const newSet = new Set(prev);
+        markedKeys.forEach(key => newSet.add(key));
+        return newSet;
+      });
+
+      await window.electronAPI.dismissNotifications(markedKeys);
+    }
+  };
+
+  /**
+   * Check whether an account narrows its inbox by subject type or reason
+   */
+  const hasTypeOrReasonFilters = (accountId: string): boolean => {
+    const filters = accounts.find(account => account.id === accountId)?.filters;
+    return Boolean(filters && (filters.subjectTypes.length > 0 || filters.reasons.length > 0));
+  };
+
+  /**
+   * Mark repository groups as read, with one request per repository unless that would also mark
+   * unread threads that aren't shown
+   */
+  const markGroupsAsRead = async (groups: NotificationGroup[]) => {
+    // The repository endpoint also marks threads hidden by a subject type or reason filter,
+    // so only per-thread requests are safe for accounts with one of those active
+    const filteredGroups = groups.filter(group => hasTypeOrReasonFilters(group.accountId));
+    if (filteredGroups.length > 0) {
+      const targets = filteredGroups.flatMap(group => group.notifications);
+      log(`🔍 Subject type or reason filters active, marking ${targets.length} notifications individually`);
+      await applyBulkAction(targets, 'read', (accountId, id) => window.electronAPI.markThreadAsRead(accountId, id));
+    }
+
+    const markedKeys: string[] = [];
+    let rateLimitFailure: GitHubActionResult | null = null;
+
+    for (const group of groups.filter(group => !hasTypeOrReasonFilters(group.accountId))) {
+      // Only mark what we have shown; anything newer on GitHub stays unread
+      const lastReadAt = group.notifications
+        .map(notif => notif.updatedAt)
+        .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0];
+
+      log(`🔍 Marking notifications in ${group.repository} as read up to ${lastReadAt}...`);
+      const threadIds = group.notifications.map(notif => notif.id);
+      const result = await window.electronAPI.markRepositoryAsRead(group.accountId, group.repository, threadIds, lastReadAt);
+      if (result.success) {
+        markedKeys.push(...group.notifications.map(notif => notif.key));
+      } else {
+        console.error(`Failed to mark notifications in ${group.repository} as read:`, result.error);
+
+        // Every remaining call would fail the same way until the budget resets
+        if (result.rateLimited) {
+          rateLimitFailure = result;
+          break;
+        }
+      }
+    }
+    await updateRateLimit();
+
+    if (rateLimitFailure) {
+      const resetAt = rateLimitFailure.rateLimit ? new Date(rateLimitFailure.rateLimit.resetAt).toLocaleTimeString() : 'later';
+      await notificationService.notify({
+        title: 'GitHub Rate Limit Reached',
+        body: `Marked ${markedKeys.length} notifications as read before hitting the rate limit. Try again after ${resetAt} for the rest.`,
+        tag: 'mark-all-read'
+      });
+    }
+
+    if (markedKeys.length > 0) {
+      setMarkedAsReadKeys(prev => {
+        const newSet = new Set(prev);
+        markedKeys.forEach(key => newSet.add(key));
+        return newSet;
+      });
+
+      await window.electronAPI.dismissNotifications(markedKeys);
+    }
+  };
+
+  const handleMarkRepositoryAsRead = async (group: NotificationGroup) => {
+    try {
+      await markGroupsAsRead([group]);
+    } catch (error) {
+      console.error(`Failed to mark ${group.repository} as read:`, error);
+    }
+  };
+
   const handleMarkAllAsRead = async () => {
-    if (!githubService) return;
-    
+    // Only the accounts currently shown are affected; the poller only reports accounts with a token
+    const visibleAccounts = accounts.filter(account =>
+      pollState?.accounts.some(summary => summary.id === account.id) && (!activeAccountId || account.id === activeAccountId)
+    );
+
     try {
       // Check if we have any filters applied
-      const hasFilters = selectedOrgs.length > 0 || selectedRepos.length > 0 || 
-                        selectedSubjectTypes.length > 0 || selectedReasons.length > 0;
+      const hasFilters = visibleAccounts.some(account =>
+        account.filters.organizations.length > 0 || account.filters.repositories.length > 0 ||
+        account.filters.subjectTypes.length > 0 || account.filters.reasons.length > 0
+      );
       
       if (hasFilters) {
         // Mark only filtered notifications as read
-        log('🔍 Marking filtered notifications as read with current filters:', {
-          selectedOrgs,
-          selectedRepos,
-          selectedSubjectTypes,
-          selectedReasons
-        });
-        
-        // Get the IDs of currently visible notifications to mark them as read
-        const currentNotificationIds = notifications.flatMap(group => 
-          group.notifications.map(notif => notif.id)
+        log('🔍 Marking filtered notifications as read with current filters:', 
+          visibleAccounts.map(account => ({ account: account.name, filters: account.filters }))
         );
         
-        log(`🔍 Marking ${currentNotificationIds.length} currently visible notifications as read:`, currentNotificationIds);
-        
-        // Mark each visible notification as read individually
-        let markedCount = 0;
-        const errors: string[] = [];
-        
-        for (const notificationId of currentNotificationIds) {
-          try {
-            log(`🔍 Marking notification ${notificationId} as read...`);
-            await githubService.markNotificationAsRead(notificationId);
-            markedCount++;
-            log(`✅ Successfully marked notification ${notificationId} as read`);
-            
-            // Add a small delay to avoid rate limiting
-            if (markedCount % 10 === 0) {
-              await new Promise(resolve => setTimeout(resolve, 100));
-            }
-          } catch (error) {
-            const errorMsg = `Failed to mark notification ${notificationId} as read: ${error instanceof Error ? error.message : 'Unknown error'}`;
-            log(`❌ ${errorMsg}`);
-            errors.push(errorMsg);
-          }
-        }
-        
-        if (errors.length > 0) {
-          log(`⚠️ ${errors.length} notifications failed to be marked as read:`, errors);
-        }
-        
-        const result = { markedCount, totalFiltered: currentNotificationIds.length };
-        
-        log(`✅ Marked ${result.markedCount} out of ${result.totalFiltered} filtered notifications as read`);
-        
-        // Show user feedback
-        if (result.markedCount > 0) {
-          await notificationService.notify({
-            title: 'Notifications Marked as Read',
-            body: `Marked ${result.markedCount} out of ${result.totalFiltered} filtered notifications as read`,
-            tag: 'mark-all-read'
-          });
-        }
-        
-        // Update local state immediately by removing the marked notifications
-        if (result.markedCount > 0) {
-          // Get the IDs of currently visible notifications to mark them as read locally
-          const currentNotificationIds = notifications.flatMap(group => 
-            group.notifications.map(notif => notif.id)
-          );
-          
-          // Add these IDs to our marked as read set
-          setMarkedAsReadIds(prev => {
-            const newSet = new Set(prev);
-            currentNotificationIds.forEach(id => newSet.add(id));
-            return newSet;
-          });
-          
-          // Clear the notifications from the UI immediately
-          setNotifications([]);
-          setUnreadCount(0);
-        }
+        await markGroupsAsRead(notifications);
         
         // No automatic refresh - let local tracking handle the UI state
         // User can manually refresh if they want to sync with GitHub API
       } else {
         // No filters applied, mark all notifications as read
         log('🔍 No filters applied, marking all notifications as read');
-        await githubService.markAllNotificationsAsRead();
+        for (const account of visibleAccounts) {
+          const result = await window.electronAPI.markAllAsRead(account.id);
+          if (!result.success) {
+            throw new Error(result.error);
+          }
+        }
         
         // Update local state immediately - clear all notifications since they're all read
         setNotifications([]);
         setUnreadCount(0);
+        await window.electronAPI.dismissNotifications(
+          notifications.flatMap(group => group.notifications.map(notif => notif.key))
+        );
       }
     } catch (error) {
       console.error('Failed to mark all as read:', error);
     }
   };
 
+  const handleMarkAllAsDone = async () => {
+    try {
+      // GitHub has no bulk done endpoint, so every visible thread is marked individually
+      const currentNotifications = notifications.flatMap(group => group.notifications);
+
+      log(`🔍 Marking ${currentNotifications.length} currently visible notifications as done`);
+      await applyBulkAction(currentNotifications, 'done', (accountId, id) => window.electronAPI.markThreadAsDone(accountId, id));
+    } catch (error) {
+      console.error('Failed to mark all as done:', error);
+    }
+  };
+
   const handleRefresh = () => {
     // Clear local tracking when user manually refreshes
     log('🔄 Manual refresh - clearing local mark-as-read tracking');
-    setMarkedAsReadIds(new Set());
-    loadNotifications(selectedOrgs, selectedRepos, selectedSubjectTypes, selectedReasons);
+    setMarkedAsReadKeys(new Set());
+    window.electronAPI.refreshNotifications().then(setPollState).catch(error => {
+      console.error('Failed to refresh notifications:', error);
+    });
   };
 
   const loadFilterSettings = async (): Promise<{ 
@@ -556,9 +647,7 @@ const handleOpenGeneralSettings = () => {
 };
 
 const handleQuit = () => {
-  if (window.electronAPI && (window.electronAPI as any).quit) {
-    (window.electronAPI as any).quit();
-  }
+  window.electronAPI?.quit();
 };
 
 const handleSaveFilterSettings = async (
@@ -580,15 +669,18 @@ const handleSaveFilterSettings = async (
     if (window.electronAPI && window.electronAPI.saveFilterSettings) {
       const success = await window.electronAPI.saveFilterSettings(filterSettings);
       if (success) {
+        // Filters are saved for the shown account, or the first one in the merged inbox
+        const filterAccountId = activeAccountId ?? accounts[0]?.id;
+        setAccounts(prev => prev.map(account =>
+          account.id === filterAccountId ? { ...account, filters: filterSettings } : account
+        ));
         setSelectedOrgs(newSelectedOrgs);
         setSelectedRepos(newSelectedRepos);
         setSelectedSubjectTypes(newSelectedSubjectTypes);
         setSelectedReasons(newSelectedReasons);
         console.log('✅ Filter settings saved successfully');
         
-        // Refresh notifications with the new filters immediately
-        console.log('🔄 Refreshing notifications with new filters...');
-        await loadNotifications(newSelectedOrgs, newSelectedRepos, newSelectedSubjectTypes, newSelectedReasons);
+        // The main-process poller refreshes with the new filters as soon as they are saved
       } else {
         console.error('❌ Failed to save filter settings');
       }
@@ -599,10 +691,35 @@ const handleSaveFilterSettings = async (
 };
 
 const handleSettingsChange = async () => {
-  // Reload settings when they change to update refresh interval
+  // Reload settings when they change to update notification preferences and accounts
   await loadSettings();
+  await loadAccounts();
 };
 
+const handleSwitchAccount = async (accountId: string | null) => {
+  setActiveAccountId(accountId);
+  await window.electronAPI.setActiveAccount(accountId);
+  // The filter modal edits the shown account's filters
+  await loadFilterSettings();
+};
+
+const handleReauthenticated = async () => {
+  // Saving the token restarts polling in the main process
+  setReauthAccountId(null);
+  await loadAccounts();
+};
+
+const filterAccount = accounts.find(account => account.id === activeAccountId) ?? accounts[0];
+
+// Accounts whose token GitHub rejected on the latest poll
+const authFailedAccounts = accounts.filter(account =>
+  pollState?.accounts.some(summary => summary.id === account.id && summary.errorKind === 'auth')
+);
+// With every account failing there is no inbox to go back to
+const reauthAccount = pollState?.errorKind === 'auth'
+  ? authFailedAccounts[0]
+  : accounts.find(account => account.id === reauthAccountId);
+
   // Show setup wizard if needed
   if (showSetupWizard) {
     return (
@@ -612,6 +729,20 @@ const handleSettingsChange = async () => {
     );
   }
 
+  if (setupComplete && reauthAccount) {
+    return (
+      <ThemeProvider>
+        <ReauthScreen
+          key={reauthAccount.id}
+          account={reauthAccount}
+          showAccountName={accounts.length > 1}
+          onReauthenticated={handleReauthenticated}
+          onCancel={pollState?.errorKind === 'auth' ? undefined : () => setReauthAccountId(null)}
+        />
+      </ThemeProvider>
+    );
+  }
+
   // Show loading state while checking setup
   if (!setupComplete) {
     return (
@@ -631,8 +762,12 @@ const handleSettingsChange = async () => {
       <div className="app">
         <Header 
           unreadCount={unreadCount}
+          accounts={pollState?.accounts}
+          activeAccountId={activeAccountId}
+          onSwitchAccount={handleSwitchAccount}
           onRefresh={handleRefresh}
           onMarkAllAsRead={handleMarkAllAsRead}
+          onMarkAllAsDone={handleMarkAllAsDone}
           onOpenSettings={handleOpenSettings}
           onOpenGeneralSettings={handleOpenGeneralSettings}
           onQuit={handleQuit}
@@ -641,6 +776,19 @@ const handleSettingsChange = async () => {
 
         
         <main className="main-content">
+          {authFailedAccounts.length > 0 && !loading && (
+            <div className="auth-warning">
+              <span>
+                {authFailedAccounts.map(account => account.name).join(', ')} {authFailedAccounts.length === 1 ? 'needs' : 'need'} a new token
+              </span>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => setReauthAccountId(authFailedAccounts[0].id)}
+              >
+                Re-authenticate
+              </button>
+            </div>
+          )}
           {loading ? (
             <div className="loading">
               <div className="spinner"></div>
@@ -653,7 +801,7 @@ const handleSettingsChange = async () => {
               <p>{error}</p>
               <button 
                 className="btn btn-primary" 
-                onClick={() => loadNotifications(selectedOrgs, selectedRepos, selectedSubjectTypes, selectedReasons)}
+                onClick={handleRefresh}
               >
                 Try Again
               </button>
@@ -661,7 +809,14 @@ const handleSettingsChange = async () => {
           ) : (
             <NotificationList 
               notifications={notifications}
+              rateLimit={rateLimit}
+              truncated={pollState?.truncated ?? false}
+              accounts={accounts}
               onMarkAsRead={handleMarkAsRead}
+              onMarkAsDone={handleMarkAsDone}
+              onMarkRepositoryAsRead={handleMarkRepositoryAsRead}
+              onOpened={handleNotificationOpened}
+              onMute={handleMuteThread}
             />
           )}
         </main>
@@ -673,6 +828,8 @@ const handleSettingsChange = async () => {
           initialSelectedRepos={selectedRepos}
           initialSelectedSubjectTypes={selectedSubjectTypes}
           initialSelectedReasons={selectedReasons}
+          accountId={filterAccount?.id}
+          accountName={accounts.length > 1 ? filterAccount?.name : undefined}
         />
         <SettingsModal
           isOpen={showGeneralSettings}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { FilterStep } from './setup/FilterStep';
 import { NotificationSubjectType, NotificationReason } from '../types/notifications';
+import { SUBJECT_TYPES, REASONS } from '../services/notificationCatalog';
 
 interface FilterSettingsModalProps {
   isOpen: boolean;
@@ -16,6 +17,9 @@ interface FilterSettingsModalProps {
   initialSelectedRepos?: string[];
   initialSelectedSubjectTypes?: NotificationSubjectType[];
   initialSelectedReasons?: NotificationReason[];
+  // Account whose filters are being edited; only named when there is more than one
+  accountId?: string;
+  accountName?: string;
 }
 
 export function FilterSettingsModal({ 
@@ -25,7 +29,9 @@ export function FilterSettingsModal({
   initialSelectedOrgs = [], 
   initialSelectedRepos = [],
   initialSelectedSubjectTypes = [],
-  initialSelectedReasons = []
+  initialSelectedReasons = [],
+  accountId,
+  accountName
 }: FilterSettingsModalProps) {
   const [selectedOrgs, setSelectedOrgs] = useState<string[]>(initialSelectedOrgs);
   const [selectedRepos, setSelectedRepos] = useState<string[]>(initialSelectedRepos);
@@ -79,29 +85,9 @@ export function FilterSettingsModal({
     }
   }, [isOpen]);
 
-  // Helper functions for subject types and reasons
-  const subjectTypes: { value: NotificationSubjectType; label: string; icon: string }[] = [
-    { value: 'Issue', label: 'Issues', icon: '🐛' },
-    { value: 'PullRequest', label: 'Pull Requests', icon: '🔀' },
-    { value: 'Commit', label: 'Commits', icon: '📝' },
-    { value: 'Release', label: 'Releases', icon: '🏷️' },
-    { value: 'Discussion', label: 'Discussions', icon: '💬' }
-  ];
-
-  const reasons: { value: NotificationReason; label: string; icon: string; description: string }[] = [
-    { value: 'assign', label: 'Assigned', icon: '👤', description: 'You were assigned to an issue or PR' },
-    { value: 'author', label: 'Author', icon: '✍️', description: 'You authored the issue or PR' },
-    { value: 'comment', label: 'Comments', icon: '💬', description: 'New comments on issues or PRs' },
-    { value: 'invitation', label: 'Invitations', icon: '📧', description: 'Repository or organization invitations' },
-    { value: 'manual', label: 'Manual', icon: '🔔', description: 'Manually subscribed notifications' },
-    { value: 'mention', label: 'Mentions', icon: '👋', description: 'You were mentioned in a comment' },
-    { value: 'push', label: 'Pushes', icon: '⬆️', description: 'New commits pushed to repositories' },
-    { value: 'review_requested', label: 'Review Requests', icon: '👀', description: 'You were requested to review a PR' },
-    { value: 'security_alert', label: 'Security Alerts', icon: '🔒', description: 'Security vulnerabilities detected' },
-    { value: 'state_change', label: 'State Changes', icon: '🔄', description: 'Issues or PRs were closed/merged' },
-    { value: 'subscribed', label: 'Subscribed', icon: '👁️', description: 'You are watching the repository' },
-    { value: 'team_mention', label: 'Team Mentions', icon: '👥', description: 'Your team was mentioned' }
-  ];
+  // Every known subject type and reason, plus 'other' for values GitHub adds later
+  const subjectTypes = SUBJECT_TYPES;
+  const reasons = REASONS;
 
   const handleSubjectTypeToggle = (type: NotificationSubjectType) => {
     const newSelection = selectedSubjectTypes.includes(type)
@@ -167,7 +153,10 @@ export function FilterSettingsModal({
 
           <div className="modal-body">
             <div className="filter-settings-description">
-              <p>Configure which organizations, repositories, notification types, and reasons you want to receive notifications for.</p>
+              <p>
+                Configure which organizations, repositories, notification types, and reasons you want to receive notifications for
+                {accountName ? <> from <strong>{accountName}</strong></> : ''}.
+              </p>
             </div>
             
             {/* Tab Navigation */}
@@ -199,6 +188,7 @@ export function FilterSettingsModal({
             <div className="filter-tab-content">
               {activeTab === 'repositories' && (
                 <FilterStep
+                  accountId={accountId}
                   selectedOrgs={selectedOrgs}
                   selectedRepos={selectedRepos}
                   onOrgsChange={setSelectedOrgs}
@@ -1,15 +1,21 @@
 import { useState } from 'react';
+import { AccountSummary } from '../types/notifications';
 
 interface HeaderProps {
   unreadCount: number;
+  accounts?: AccountSummary[];
+  // Account being shown, or null for all accounts
+  activeAccountId?: string | null;
+  onSwitchAccount?: (accountId: string | null) => void;
   onRefresh: () => void;
   onMarkAllAsRead: () => void;
+  onMarkAllAsDone: () => void;
   onOpenSettings: () => void;
   onOpenGeneralSettings: () => void;
   onQuit: () => void;
 }
 
-export function Header({ unreadCount, onRefresh, onMarkAllAsRead, onOpenSettings, onOpenGeneralSettings, onQuit }: HeaderProps) {
+export function Header({ unreadCount, accounts = [], activeAccountId = null, onSwitchAccount, onRefresh, onMarkAllAsRead, onMarkAllAsDone, onOpenSettings, onOpenGeneralSettings, onQuit }: HeaderProps) {
   const [showSettingsMenu, setShowSettingsMenu] = useState(false);
 
   const handleSettingsClick = () => {
@@ -28,6 +34,23 @@ export function Header({ unreadCount, onRefresh, onMarkAllAsRead, onOpenSettings
         {unreadCount > 0 && (
           <span className="unread-badge">{unreadCount}</span>
         )}
+        {accounts.length > 1 && onSwitchAccount && (
+          <select
+            className="account-switcher"
+            value={activeAccountId ?? ''}
+            onChange={(e) => onSwitchAccount(e.target.value || null)}
+            title="Show notifications from"
+          >
+            <option value="">
+              All accounts ({accounts.reduce((total, account) => total + account.unreadCount, 0)})
+            </option>
+            {accounts.map(account => (
+              <option key={account.id} value={account.id}>
+                {account.name} ({account.error ? '⚠️' : account.unreadCount})
+              </option>
+            ))}
+          </select>
+        )}
       </div>
       
       <div className="header-actions">
@@ -52,6 +75,18 @@ export function Header({ unreadCount, onRefresh, onMarkAllAsRead, onOpenSettings
             </svg>
           </button>
         )}
+
+        {unreadCount > 0 && (
+          <button 
+            className="action-button"
+            onClick={onMarkAllAsDone}
+            title="Mark all as done"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 7l-8 8-4-4M22 10l-7.5 7.5L13 16"/>
+            </svg>
+          </button>
+        )}
         
         <div className="settings-dropdown">
           <button 
@@ -1,38 +1,40 @@
-import { AppNotification } from '../types/notifications';
+import { AppNotification, CheckStatus, SubjectDetails } from '../types/notifications';
 import { QuickActions } from './QuickActions';
+import { getReasonInfo, getSubjectTypeInfo } from '../services/notificationCatalog';
 
 interface NotificationItemProps {
   notification: AppNotification;
-  onMarkAsRead: (notificationId: string) => void;
+  onMarkAsRead: (notificationKey: string) => void;
+  onMarkAsDone: (notificationKey: string) => void;
+  // Called after the notification was opened, so the app can apply the open-in-browser setting
+  onOpened: (notificationKey: string) => void;
+  onMute: (notification: AppNotification) => void;
 }
 
-export function NotificationItem({ notification, onMarkAsRead }: NotificationItemProps) {
-  const getReasonIcon = (reason: string) => {
-    switch (reason) {
-      case 'assign': return 'ASSIGN';
-      case 'author': return 'AUTHOR';
-      case 'comment': return 'COMMENT';
-      case 'invitation': return 'INVITE';
-      case 'manual': return 'BELL';
-      case 'mention': return 'MENTION';
-      case 'push': return 'PUSH';
-      case 'review_requested': return 'REVIEW';
-      case 'security_alert': return 'SECURITY';
-      case 'state_change': return 'CHANGE';
-      case 'subscribed': return 'WATCH';
-      case 'team_mention': return 'TEAM';
-      default: return 'NOTIFY';
+export function NotificationItem({ notification, onMarkAsRead, onMarkAsDone, onOpened, onMute }: NotificationItemProps) {
+  const getStateBadge = (details: SubjectDetails) => {
+    if (details.state === 'open' && details.isDraft) return { label: 'Draft', className: 'draft' };
+    switch (details.state) {
+      case 'merged': return { label: 'Merged', className: 'merged' };
+      case 'closed': return { label: 'Closed', className: 'closed' };
+      default: return { label: 'Open', className: 'open' };
     }
   };
 
-  const getSubjectIcon = (type: string) => {
-    switch (type) {
-      case 'Issue': return 'ISSUE';
-      case 'PullRequest': return 'PR';
-      case 'Commit': return 'COMMIT';
-      case 'Release': return 'RELEASE';
-      case 'Discussion': return 'DISCUSS';
-      default: return 'ITEM';
+  const getReviewDecisionLabel = (decision: SubjectDetails['reviewDecision']) => {
+    switch (decision) {
+      case 'APPROVED': return 'Approved';
+      case 'CHANGES_REQUESTED': return 'Changes requested';
+      case 'REVIEW_REQUIRED': return 'Review required';
+      default: return null;
+    }
+  };
+
+  const getCheckLabel = (state: CheckStatus['state']) => {
+    switch (state) {
+      case 'success': return 'Checks passing';
+      case 'failure': return 'Checks failing';
+      default: return 'Checks pending';
     }
   };
 
@@ -53,18 +55,39 @@ export function NotificationItem({ notification, onMarkAsRead }: NotificationIte
     return date.toLocaleDateString();
   };
 
+  const details = notification.details;
+
   const handleMarkAsRead = () => {
-    onMarkAsRead(notification.id);
+    onMarkAsRead(notification.key);
+  };
+
+  const handleMarkAsDone = () => {
+    onMarkAsDone(notification.key);
+  };
+
+  const handleMute = () => {
+    onMute(notification);
+  };
+
+  const handleOpenFailingCheck = async (url: string) => {
+    try {
+      await window.electronAPI.openInBrowser(url);
+    } catch (error) {
+      console.error('Failed to open failing check in browser:', error);
+      window.open(url, '_blank');
+    }
   };
 
   const handleOpenInBrowser = async () => {
     try {
-      // Open in default browser
-      await window.electronAPI.openInBrowser(notification.url);
+      // Let the main process resolve the exact page; fall back to the derived URL if it can't
+      const opened = await window.electronAPI.openNotification(notification.accountId, notification.id);
+      if (!opened) {
+        await window.electronAPI.openInBrowser(notification.url);
+      }
       
-      // Mark as read locally and sync with GitHub
-      // This gives the user immediate feedback that they've "handled" this notification
-      onMarkAsRead(notification.id);
+      // Mark as read or done (or leave it) depending on the user's settings
+      onOpened(notification.key);
     } catch (error) {
       console.error('Failed to open notification in browser:', error);
       // Fallback to regular window.open if electron API fails
@@ -78,10 +101,10 @@ export function NotificationItem({ notification, onMarkAsRead }: NotificationIte
         <div className="notification-header">
           <div className="notification-type">
             <span className="type-icon" title={`${notification.reason} - ${notification.type}`}>
-              {getReasonIcon(notification.reason)}
+              {getReasonInfo(notification.reason).badge}
             </span>
             <span className="subject-icon" title={notification.type}>
-              {getSubjectIcon(notification.type)}
+              {getSubjectTypeInfo(notification.type).badge}
             </span>
           </div>
           
@@ -100,11 +123,44 @@ export function NotificationItem({ notification, onMarkAsRead }: NotificationIte
             <button 
               onClick={handleOpenInBrowser}
               className="title-link"
-              title="Open in browser (marks as read)"
+              title="Open in browser"
             >
               {notification.title}
             </button>
           </h4>
+          {details && (
+            <div className="subject-details">
+              <span className={`state-badge ${getStateBadge(details).className}`}>
+                {getStateBadge(details).label}
+              </span>
+              {details.state === 'open' && getReviewDecisionLabel(details.reviewDecision) && (
+                <span className={`review-badge ${details.reviewDecision?.toLowerCase()}`}>
+                  {getReviewDecisionLabel(details.reviewDecision)}
+                </span>
+              )}
+              {details.checks && (details.checks.failingUrl ? (
+                <button
+                  className={`check-badge ${details.checks.state}`}
+                  onClick={() => handleOpenFailingCheck(details.checks!.failingUrl!)}
+                  title={`Open failing check: ${details.checks.failingName}`}
+                >
+                  {getCheckLabel(details.checks.state)}
+                </button>
+              ) : (
+                <span className={`check-badge ${details.checks.state}`}>
+                  {getCheckLabel(details.checks.state)}
+                </span>
+              ))}
+              {details.author && (
+                <span className="subject-author">by {details.author}</span>
+              )}
+              {details.commentCount > 0 && (
+                <span className="comment-count" title={`${details.commentCount} comments`}>
+                  {details.commentCount} {details.commentCount === 1 ? 'comment' : 'comments'}
+                </span>
+              )}
+            </div>
+          )}
         </div>
       </div>
       
@@ -112,6 +168,8 @@ export function NotificationItem({ notification, onMarkAsRead }: NotificationIte
         <QuickActions
           notification={notification}
           onMarkAsRead={handleMarkAsRead}
+          onMarkAsDone={handleMarkAsDone}
+          onMute={handleMute}
           onOpenInBrowser={handleOpenInBrowser}
         />
       </div>
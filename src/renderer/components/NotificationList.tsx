@@ -1,12 +1,22 @@
-import { NotificationGroup } from '../types/notifications';
+import { AppNotification, NotificationGroup, RateLimitInfo, AccountProfile } from '../types/notifications';
 import { NotificationItem } from './NotificationItem';
+import { getWebBaseUrl } from '../services/githubHosts';
 
 interface NotificationListProps {
   notifications: NotificationGroup[];
-  onMarkAsRead: (notificationId: string) => void;
+  rateLimit?: RateLimitInfo | null;
+  truncated?: boolean;
+  // Repository cards are labelled with their account when more than one is configured,
+  // and link to the account's host
+  accounts?: AccountProfile[];
+  onMarkAsRead: (notificationKey: string) => void;
+  onMarkAsDone: (notificationKey: string) => void;
+  onMarkRepositoryAsRead: (group: NotificationGroup) => void;
+  onOpened: (notificationKey: string) => void;
+  onMute: (notification: AppNotification) => void;
 }
 
-export function NotificationList({ notifications, onMarkAsRead }: NotificationListProps) {
+export function NotificationList({ notifications, rateLimit, truncated, accounts = [], onMarkAsRead, onMarkAsDone, onMarkRepositoryAsRead, onOpened, onMute }: NotificationListProps) {
   const handleRepositoryClick = async (repositoryUrl: string) => {
     try {
       // Open in default browser using Electron API
@@ -33,6 +43,9 @@ export function NotificationList({ notifications, onMarkAsRead }: NotificationLi
     total + group.notifications.filter(n => n.unread).length, 0
   );
 
+  // Flag the budget once less than a tenth of the hourly quota is left
+  const isRateLimitLow = rateLimit ? rateLimit.remaining < rateLimit.limit / 10 : false;
+
   return (
     <div className="notification-list">
       <div className="list-header">
@@ -42,40 +55,80 @@ export function NotificationList({ notifications, onMarkAsRead }: NotificationLi
           {totalUnread > 0 && (
             <span className="unread-badge">{totalUnread} unread</span>
           )}
+          {rateLimit && (
+            <span
+              className={`rate-limit ${isRateLimitLow ? 'low' : ''}`}
+              title={`GitHub API requests left this hour, resets at ${new Date(rateLimit.resetAt).toLocaleTimeString()}`}
+            >
+              API {rateLimit.remaining}/{rateLimit.limit}
+            </span>
+          )}
         </div>
+        {truncated && (
+          <div className="truncated-notice">
+            Older notifications were not loaded. Raise the page limit in Settings to fetch more.
+          </div>
+        )}
       </div>
       
       <div className="notifications-container">
-        {notifications.map((group) => (
-          <div key={group.repository} className="repository-card">
-            <div className="repository-header">
-              <div className="repository-info">
-                <h3 className="repository-name">
-                  <button 
-                    onClick={() => handleRepositoryClick(`https://github.com/${group.repository}`)}
-                    className="repository-link"
-                    title="Open repository in browser"
-                  >
-                    {group.repository}
-                  </button>
-                </h3>
-                <span className="notification-count">
-                  {group.notifications.length}
-                </span>
+        {notifications.map((group) => {
+          const groupAccount = accounts.find(a => a.id === group.accountId);
+          const account = accounts.length > 1 ? groupAccount : undefined;
+          return (
+            <div key={`${group.accountId}:${group.repository}`} className="repository-card">
+              <div className="repository-header">
+                <div className="repository-info">
+                  <h3 className="repository-name">
+                    {account && (
+                      <span
+                        className="account-tag"
+                        style={{ borderColor: account.color, color: account.color }}
+                        title={`Notification for ${account.name}`}
+                      >
+                        {account.name}
+                      </span>
+                    )}
+                    <button 
+                      onClick={() => handleRepositoryClick(`${getWebBaseUrl(groupAccount?.host)}/${group.repository}`)}
+                      className="repository-link"
+                      title="Open repository in browser"
+                    >
+                      {group.repository}
+                    </button>
+                  </h3>
+                  <div className="repository-actions">
+                    <span className="notification-count">
+                      {group.notifications.length}
+                    </span>
+                    <button
+                      className="action-button small"
+                      onClick={() => onMarkRepositoryAsRead(group)}
+                      title={`Mark all in ${group.repository} as read`}
+                    >
+                      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M9 12l2 2 4-4M21 12c0 4.97-4.03 9-9 9s-9-4.03-9-9 4.03-9 9-9 9 4.03 9 9z"/>
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              </div>
+              
+              <div className="notifications-list">
+                {group.notifications.map((notification) => (
+                  <NotificationItem
+                    key={notification.key}
+                    notification={notification}
+                    onMarkAsRead={onMarkAsRead}
+                    onMarkAsDone={onMarkAsDone}
+                    onOpened={onOpened}
+                    onMute={onMute}
+                  />
+                ))}
               </div>
             </div>
-            
-            <div className="notifications-list">
-              {group.notifications.map((notification) => (
-                <NotificationItem
-                  key={notification.id}
-                  notification={notification}
-                  onMarkAsRead={onMarkAsRead}
-                />
-              ))}
-            </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
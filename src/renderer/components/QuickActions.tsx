@@ -3,10 +3,12 @@ import { AppNotification } from '../types/notifications';
 interface QuickActionsProps {
   notification: AppNotification;
   onMarkAsRead: () => void;
+  onMarkAsDone: () => void;
+  onMute: () => void;
   onOpenInBrowser: () => void;
 }
 
-export function QuickActions({ notification, onMarkAsRead, onOpenInBrowser }: QuickActionsProps) {
+export function QuickActions({ notification, onMarkAsRead, onMarkAsDone, onMute, onOpenInBrowser }: QuickActionsProps) {
   return (
     <div className="quick-actions">
       {notification.unread && (
@@ -20,6 +22,26 @@ export function QuickActions({ notification, onMarkAsRead, onOpenInBrowser }: Qu
           </svg>
         </button>
       )}
+
+      <button
+        className="action-button small"
+        onClick={onMarkAsDone}
+        title="Mark as done"
+      >
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M20 6L9 17l-5-5"/>
+        </svg>
+      </button>
+
+      <button
+        className="action-button small"
+        onClick={onMute}
+        title="Mute thread"
+      >
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M13.73 21a2 2 0 0 1-3.46 0M18.63 13A17.89 17.89 0 0 1 18 8M6.26 6.26A5.86 5.86 0 0 0 6 8c0 7-3 9-3 9h14M18 8a6 6 0 0 0-9.33-5M1 1l22 22"/>
+        </svg>
+      </button>
       
       <button
         className="action-button small"
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { PATStep } from './setup/PATStep';
+import { AccountProfile } from '../types/notifications';
+import './SetupWizard.css';
+
+interface ReauthScreenProps {
+  // Account whose token GitHub rejected
+  account: AccountProfile;
+  // Show the account name when there is more than one to tell apart
+  showAccountName?: boolean;
+  onReauthenticated: () => void;
+  // Back to the inbox while other accounts still work
+  onCancel?: () => void;
+}
+
+export function ReauthScreen({ account, showAccountName, onReauthenticated, onCancel }: ReauthScreenProps) {
+  const [pat, setPat] = useState('');
+  // Reported by PATStep, which validates the token as it's typed
+  const [isValid, setIsValid] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const handlePatChange = (newPat: string) => {
+    setPat(newPat);
+    setSaveError(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const success = await window.electronAPI.savePAT(pat, account.id);
+      if (success) {
+        onReauthenticated();
+      } else {
+        setSaveError('Failed to store the token in the system keychain');
+      }
+    } catch (error) {
+      console.error('Error saving PAT:', error);
+      setSaveError('Failed to save the token');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="setup-wizard reauth-screen">
+      <div className="reauth-notice">
+        <strong>
+          {showAccountName ? `Your token for ${account.name} is no longer valid` : 'Your GitHub token is no longer valid'}
+        </strong>
+        <p>
+          GitHub rejected it, usually because it expired or was revoked. Sign in again or paste a new token to keep receiving notifications.
+        </p>
+      </div>
+
+      <div className="step-content">
+        <PATStep
+          pat={pat}
+          onPatChange={handlePatChange}
+          host={account.host}
+          accountId={account.id}
+          onDeviceFlowComplete={onReauthenticated}
+          onValidationChange={setIsValid}
+        />
+      </div>
+
+      {saveError && <div className="invalid">✗ {saveError}</div>}
+
+      <div className="step-navigation">
+        {onCancel ? (
+          <button className="btn btn-secondary" onClick={onCancel} disabled={isSaving}>
+            Back to Inbox
+          </button>
+        ) : (
+          <div className="nav-spacer" />
+        )}
+        <button
+          className="btn btn-primary"
+          onClick={handleSave}
+          disabled={!isValid || isSaving}
+        >
+          {isSaving ? 'Saving...' : 'Save Token'}
+        </button>
+      </div>
+    </div>
+  );
+}
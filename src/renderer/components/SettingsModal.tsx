@@ -2,6 +2,9 @@ import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTheme } from '../contexts/ThemeContext';
 import { notificationService } from '../services/notificationService';
+import { normalizeHost, isGitHubDotCom } from '../services/githubHosts';
+import { getMutedThreadKey } from '../services/notificationKeys';
+import { MutedThread, OpenInBrowserAction, AccountProfile, SettingsImportPreview } from '../types/notifications';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -11,21 +14,60 @@ interface SettingsModalProps {
 }
 
 interface Settings {
-  pat: string;
+  // Whether the selected account has a token; the token itself stays in the main process
+  hasPAT: boolean;
   refreshInterval: number;
-  showUnreadOnly: boolean;
+  maxNotificationPages: number;
+  tokenExpiryReminderDays: number;
+  openInBrowserAction: OpenInBrowserAction;
   enableSound: boolean;
   enableDesktopNotifications: boolean;
   autoStart: boolean;
   theme: 'light' | 'dark' | 'system';
 }
 
+// Readable names for the settings an import can change
+const IMPORT_SETTING_LABELS: Record<string, string> = {
+  'filters.organizations': 'Organizations',
+  'filters.repositories': 'Repositories',
+  'filters.subjectTypes': 'Notification types',
+  'filters.reasons': 'Reasons',
+  refreshInterval: 'Refresh interval (minutes)',
+  maxNotificationPages: 'Notification pages per refresh',
+  openInBrowserAction: 'After opening a notification',
+  tokenExpiryReminderDays: 'Token expiry reminder (days)',
+  enableSound: 'Sound notifications',
+  enableDesktopNotifications: 'Desktop notifications',
+  autoStart: 'Start automatically',
+  theme: 'Theme'
+};
+
+/**
+ * Describe when an account's token expires, or null if GitHub hasn't reported an expiry
+ */
+function formatTokenExpiry(expiresAt: string | null | undefined): { text: string; soon: boolean } | null {
+  if (!expiresAt) {
+    return null;
+  }
+
+  const daysLeft = Math.ceil((new Date(expiresAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  if (daysLeft <= 0) {
+    return { text: 'Token expired', soon: true };
+  }
+  return {
+    text: `Token expires ${new Date(expiresAt).toLocaleDateString()}`,
+    soon: daysLeft <= 7
+  };
+}
+
 export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefresh }: SettingsModalProps) {
   const { theme, setTheme } = useTheme();
   const [settings, setSettings] = useState<Settings>({
-    pat: '',
+    hasPAT: false,
     refreshInterval: 5,
-    showUnreadOnly: true,
+    maxNotificationPages: 10,
+    tokenExpiryReminderDays: 7,
+    openInBrowserAction: 'read',
     enableSound: true,
     enableDesktopNotifications: true,
     autoStart: false,
@@ -35,9 +77,25 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
   const [showPATInput, setShowPATInput] = useState(false);
   const [newPAT, setNewPAT] = useState('');
   const [patError, setPatError] = useState('');
+  const [saveError, setSaveError] = useState('');
+  // Account whose token the GitHub Authentication section replaces
+  const [patAccountId, setPatAccountId] = useState<string | undefined>(undefined);
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>('default');
   const [debugMode, setDebugMode] = useState(false);
   const [titleClickCount, setTitleClickCount] = useState(0);
+  const [mutedThreads, setMutedThreads] = useState<MutedThread[]>([]);
+  const [accounts, setAccounts] = useState<AccountProfile[]>([]);
+  const [showAddAccount, setShowAddAccount] = useState(false);
+  const [newAccountName, setNewAccountName] = useState('');
+  const [newAccountPAT, setNewAccountPAT] = useState('');
+  const [newAccountHost, setNewAccountHost] = useState('');
+  const [accountError, setAccountError] = useState('');
+  const [isAddingAccount, setIsAddingAccount] = useState(false);
+  // Account whose filters are exported, or replaced by an import
+  const [transferAccountId, setTransferAccountId] = useState<string | undefined>(undefined);
+  const [importPreview, setImportPreview] = useState<SettingsImportPreview | null>(null);
+  const [transferMessage, setTransferMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [isTransferring, setIsTransferring] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
@@ -47,14 +105,19 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
 
   const loadSettings = async () => {
     try {
-      // Load current PAT
-      const currentPAT = await window.electronAPI.getPAT();
-      if (currentPAT) {
-        setSettings(prev => ({ ...prev, pat: currentPAT }));
-      }
+      const { accounts: profiles } = await window.electronAPI.getAccounts();
+      setAccounts(profiles);
+
+      // Load current PAT of the first account
+      setPatAccountId(profiles[0]?.id);
+      setTransferAccountId(profiles[0]?.id);
+      setImportPreview(null);
+      setTransferMessage(null);
+      const hasPAT = await window.electronAPI.hasPAT(profiles[0]?.id);
+      setSettings(prev => ({ ...prev, hasPAT }));
 
       // Load other settings from storage
-      const storedSettings = await (window.electronAPI as any).getSettings?.();
+      const storedSettings = await window.electronAPI.getSettings();
       if (storedSettings) {
         setSettings(prev => ({ ...prev, ...storedSettings }));
       }
@@ -62,6 +125,8 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
       // Update local settings with current theme from context
       setSettings(prev => ({ ...prev, theme }));
 
+      setMutedThreads(await window.electronAPI.getMutedThreads());
+
       // Check notification permission status
       const status = notificationService.getNotificationStatus();
       if (status.supported) {
@@ -77,25 +142,30 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
   const handleSave = async () => {
     try {
       setIsSaving(true);
+      setSaveError('');
       
-      // Save PAT if changed
-      if (newPAT && newPAT !== settings.pat) {
-        const success = await (window.electronAPI as any).setPAT(newPAT);
-        if (success) {
-          setSettings(prev => ({ ...prev, pat: newPAT }));
+      // Replace the PAT if changed; the main process validates it and keeps the old one if it fails
+      if (newPAT) {
+        const result = await window.electronAPI.rotatePAT(newPAT, patAccountId);
+        if (result.success) {
+          setSettings(prev => ({ ...prev, hasPAT: true }));
           setNewPAT('');
           setShowPATInput(false);
           setPatError('');
         } else {
-          setPatError('Failed to save PAT. Please try again.');
+          setPatError(result.rolledBack
+            ? `${result.error}. Your previous token is still in use.`
+            : result.error || 'Failed to save PAT. Please try again.');
           return;
         }
       }
 
       // Save other settings
-      if ((window.electronAPI as any).setSettings) {
-        const { pat, ...otherSettings } = settings;
-        await (window.electronAPI as any).setSettings(otherSettings);
+      const { hasPAT, ...otherSettings } = settings;
+      const saved = await window.electronAPI.setSettings(otherSettings);
+      if (!saved) {
+        setSaveError('Failed to save settings. Please try again.');
+        return;
       }
 
       // Notify parent component that settings have changed
@@ -106,15 +176,18 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
       onClose();
     } catch (error) {
       console.error('Error saving settings:', error);
+      setSaveError('Failed to save settings. Please try again.');
     } finally {
       setIsSaving(false);
     }
   };
 
   const handleCancel = () => {
+    resetAddAccount();
     setNewPAT('');
     setShowPATInput(false);
     setPatError('');
+    setSaveError('');
     onClose();
   };
 
@@ -123,8 +196,9 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
       setPatError('PAT must be at least 40 characters long');
       return false;
     }
-    if (!pat.startsWith('ghp_') && !pat.startsWith('github_pat_')) {
-      setPatError('PAT must start with "ghp_" or "github_pat_"');
+    // gho_ tokens come from signing in with GitHub
+    if (!pat.startsWith('ghp_') && !pat.startsWith('github_pat_') && !pat.startsWith('gho_')) {
+      setPatError('Token must start with "ghp_", "github_pat_" or "gho_"');
       return false;
     }
     setPatError('');
@@ -140,6 +214,14 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
     }
   };
 
+  const handlePatAccountChange = async (accountId: string) => {
+    setPatAccountId(accountId);
+    setNewPAT('');
+    setPatError('');
+    const hasPAT = await window.electronAPI.hasPAT(accountId);
+    setSettings(prev => ({ ...prev, hasPAT }));
+  };
+
   const handleRefreshIntervalChange = (value: number) => {
     setSettings(prev => ({ ...prev, refreshInterval: value }));
   };
@@ -153,6 +235,150 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
     }
   };
 
+  const handleUnmuteThread = async (mutedThread: MutedThread) => {
+    try {
+      const unmuted = await window.electronAPI.unmuteThread(mutedThread.accountId, mutedThread.id);
+      if (unmuted) {
+        const key = getMutedThreadKey(mutedThread);
+        setMutedThreads(prev => prev.filter(thread => getMutedThreadKey(thread) !== key));
+      } else {
+        console.error('Failed to unmute thread:', mutedThread.id);
+      }
+    } catch (error) {
+      console.error('Failed to unmute thread:', error);
+    }
+  };
+
+  const handleExportSettings = async () => {
+    try {
+      setIsTransferring(true);
+      setTransferMessage(null);
+      const result = await window.electronAPI.exportSettings(transferAccountId);
+      if (result.canceled) {
+        return;
+      }
+      if (!result.success) {
+        setTransferMessage({ text: result.error || 'Failed to export settings', error: true });
+        return;
+      }
+
+      const skipped = result.unresolved?.length
+        ? ` ${result.unresolved.length} filtered item(s) this account can no longer see were left out.`
+        : '';
+      setTransferMessage({ text: `Settings exported to ${result.filePath}.${skipped}`, error: false });
+    } catch (error) {
+      console.error('Failed to export settings:', error);
+      setTransferMessage({ text: 'Failed to export settings', error: true });
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleImportSettings = async () => {
+    try {
+      setIsTransferring(true);
+      setTransferMessage(null);
+      const result = await window.electronAPI.previewSettingsImport(transferAccountId);
+      if (result.canceled) {
+        return;
+      }
+      if (!result.success || !result.preview) {
+        setTransferMessage({ text: result.error || 'Failed to read the settings file', error: true });
+        return;
+      }
+      setImportPreview(result.preview);
+    } catch (error) {
+      console.error('Failed to import settings:', error);
+      setTransferMessage({ text: 'Failed to read the settings file', error: true });
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleApplyImport = async () => {
+    if (!importPreview) return;
+
+    try {
+      setIsTransferring(true);
+      // Filters and app settings are saved together, so nothing is half applied
+      const saved = await window.electronAPI.applySettingsImport(importPreview.filters, importPreview.app, transferAccountId);
+      if (!saved) {
+        setTransferMessage({ text: 'Failed to apply the imported settings', error: true });
+        return;
+      }
+
+      // Show what was actually stored, which is what the rest of the modal edits from here on
+      setAccounts(saved.accounts);
+      setSettings(prev => ({ ...prev, ...saved.app }));
+      setTheme(saved.app.theme);
+      setImportPreview(null);
+      setTransferMessage({ text: 'Settings imported', error: false });
+      onSettingsChange?.();
+    } catch (error) {
+      console.error('Failed to apply imported settings:', error);
+      setTransferMessage({ text: 'Failed to apply the imported settings', error: true });
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const resetAddAccount = () => {
+    setShowAddAccount(false);
+    setNewAccountName('');
+    setNewAccountPAT('');
+    setNewAccountHost('');
+    setAccountError('');
+  };
+
+  const handleAddAccount = async () => {
+    try {
+      setIsAddingAccount(true);
+      setAccountError('');
+
+      // Check the token before storing it so a typo doesn't leave a broken account behind
+      const host = normalizeHost(newAccountHost);
+      const validation = await window.electronAPI.validateToken(newAccountPAT, host);
+      if (!validation.valid) {
+        setAccountError(validation.error || 'Invalid token');
+        return;
+      }
+
+      const name = newAccountName.trim() || validation.user?.login || 'GitHub';
+      const account = await window.electronAPI.addAccount({ name, host }, newAccountPAT);
+      if (!account) {
+        setAccountError('Failed to save the account. Please try again.');
+        return;
+      }
+
+      setAccounts(prev => [...prev, account]);
+      resetAddAccount();
+      onSettingsChange?.();
+    } catch (error) {
+      console.error('Failed to add account:', error);
+      setAccountError('Failed to add the account. Please try again.');
+    } finally {
+      setIsAddingAccount(false);
+    }
+  };
+
+  const handleRemoveAccount = async (accountId: string) => {
+    try {
+      const removed = await window.electronAPI.removeAccount(accountId);
+      if (removed) {
+        const remaining = accounts.filter(account => account.id !== accountId);
+        setAccounts(remaining);
+        if (patAccountId === accountId && remaining.length > 0) {
+          await handlePatAccountChange(remaining[0].id);
+        }
+        onSettingsChange?.();
+      } else {
+        console.error('Failed to remove account:', accountId);
+      }
+    } catch (error) {
+      console.error('Failed to remove account:', error);
+    }
+  };
+
   const handleRequestNotificationPermission = async () => {
     try {
       const permission = await notificationService.requestPermission();
@@ -354,19 +580,33 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
           <div className="modal-body">
             <div className="settings-section">
               <h3>GitHub Authentication</h3>
+              {accounts.length > 1 && (
+                <div className="setting-item">
+                  <label>Account</label>
+                  <select
+                    value={patAccountId}
+                    onChange={(e) => handlePatAccountChange(e.target.value)}
+                    disabled={isSaving}
+                  >
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div className="setting-item">
                 <label>Personal Access Token</label>
                 <div className="pat-controls">
                   {!showPATInput ? (
                     <div className="pat-display">
                       <span className="pat-masked">
-                        {settings.pat ? '••••••••••••••••••••••••••••••••••••••••' : 'Not set'}
+                        {settings.hasPAT ? '••••••••••••••••••••••••••••••••••••••••' : 'Not set'}
                       </span>
                       <button 
                         className="btn btn-secondary btn-sm"
                         onClick={() => setShowPATInput(true)}
                       >
-                        {settings.pat ? 'Change' : 'Set'}
+                        {settings.hasPAT ? 'Change' : 'Set'}
                       </button>
                     </div>
                   ) : (
@@ -406,6 +646,87 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
               </div>
             </div>
 
+            <div className="settings-section">
+              <h3>Accounts</h3>
+              <ul className="accounts-list">
+                {accounts.map(account => {
+                  const expiry = formatTokenExpiry(account.tokenExpiresAt);
+                  return (
+                    <li key={account.id} className="account-row">
+                      <span className="account-color" style={{ background: account.color }} />
+                      <span className="account-name">
+                        {account.name}
+                        {!isGitHubDotCom(account.host) && (
+                          <span className="account-host">{new URL(account.host).hostname}</span>
+                        )}
+                        {expiry && (
+                          <span className={`account-expiry ${expiry.soon ? 'expiring' : ''}`}>{expiry.text}</span>
+                        )}
+                      </span>
+                      <button 
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => handleRemoveAccount(account.id)}
+                        disabled={accounts.length <= 1}
+                        title={accounts.length <= 1 ? 'At least one account is required' : `Remove ${account.name}`}
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+              {!showAddAccount ? (
+                <button 
+                  className="btn btn-secondary btn-sm"
+                  onClick={() => setShowAddAccount(true)}
+                >
+                  Add Account
+                </button>
+              ) : (
+                <div className="pat-input-group">
+                  <input
+                    type="text"
+                    value={newAccountName}
+                    onChange={(e) => setNewAccountName(e.target.value)}
+                    placeholder="Account name, e.g. Work (defaults to your login)"
+                  />
+                  <input
+                    type="text"
+                    value={newAccountHost}
+                    onChange={(e) => setNewAccountHost(e.target.value)}
+                    placeholder="GitHub Enterprise Server URL (leave empty for github.com)"
+                  />
+                  <input
+                    type="password"
+                    value={newAccountPAT}
+                    onChange={(e) => setNewAccountPAT(e.target.value)}
+                    placeholder="Personal Access Token for this account"
+                    className={accountError ? 'input-error' : ''}
+                  />
+                  {accountError && <div className="error-message">{accountError}</div>}
+                  <div className="pat-input-actions">
+                    <button 
+                      className="btn btn-secondary btn-sm"
+                      onClick={resetAddAccount}
+                      disabled={isAddingAccount}
+                    >
+                      Cancel
+                    </button>
+                    <button 
+                      className="btn btn-primary btn-sm"
+                      onClick={handleAddAccount}
+                      disabled={isAddingAccount || !newAccountPAT}
+                    >
+                      {isAddingAccount ? 'Checking...' : 'Add'}
+                    </button>
+                  </div>
+                </div>
+              )}
+              <div className="setting-help">
+                Each account keeps its own token and filters; the inbox shows all of them together
+              </div>
+            </div>
+
             <div className="settings-section">
               <h3>Notifications</h3>
               <div className="setting-item">
@@ -421,18 +742,39 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
                   <option value={60}>Every hour</option>
                 </select>
               </div>
-              
+
               <div className="setting-item">
-                <label>
-                  <input
-                    type="checkbox"
-                    checked={settings.showUnreadOnly}
-                    onChange={(e) => handleSettingChange('showUnreadOnly', e.target.checked)}
-                  />
-                  Show unread notifications only
-                </label>
+                <label>Notifications to Load</label>
+                <select 
+                  value={settings.maxNotificationPages}
+                  onChange={(e) => handleSettingChange('maxNotificationPages', Number(e.target.value))}
+                >
+                  <option value={3}>Up to 300</option>
+                  <option value={10}>Up to 1,000</option>
+                  <option value={20}>Up to 2,000</option>
+                  <option value={50}>Up to 5,000</option>
+                </select>
+                <div className="setting-help">
+                  Each 100 notifications costs one GitHub API request per refresh
+                </div>
               </div>
 
+              <div className="setting-item">
+                <label>Token Expiry Reminder</label>
+                <select 
+                  value={settings.tokenExpiryReminderDays}
+                  onChange={(e) => handleSettingChange('tokenExpiryReminderDays', Number(e.target.value))}
+                >
+                  <option value={0}>Off</option>
+                  <option value={3}>3 days before</option>
+                  <option value={7}>7 days before</option>
+                  <option value={14}>14 days before</option>
+                </select>
+                <div className="setting-help">
+                  Desktop reminder, once a day, when a token with an expiration date is about to lapse
+                </div>
+              </div>
+              
               <div className="setting-item">
                 <label>
                   <input
@@ -484,6 +826,50 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
               </div>
             </div>
 
+            <div className="settings-section">
+              <h3>Opening Notifications</h3>
+              <div className="setting-item">
+                <label>When a notification is opened in the browser</label>
+                <select 
+                  value={settings.openInBrowserAction}
+                  onChange={(e) => handleSettingChange('openInBrowserAction', e.target.value as OpenInBrowserAction)}
+                >
+                  <option value="read">Mark it as read</option>
+                  <option value="done">Mark it as done</option>
+                  <option value="none">Leave it unread</option>
+                </select>
+                <div className="setting-help">
+                  Done removes the thread from your GitHub inbox until there is new activity
+                </div>
+              </div>
+            </div>
+
+            <div className="settings-section">
+              <h3>Muted Threads</h3>
+              {mutedThreads.length === 0 ? (
+                <div className="setting-help">
+                  Threads you mute from the notification list will appear here
+                </div>
+              ) : (
+                <ul className="muted-threads">
+                  {mutedThreads.map(thread => (
+                    <li key={getMutedThreadKey(thread)} className="muted-thread">
+                      <div className="muted-thread-info">
+                        <span className="muted-thread-title">{thread.title}</span>
+                        <span className="muted-thread-repo">{thread.repository}</span>
+                      </div>
+                      <button 
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => handleUnmuteThread(thread)}
+                      >
+                        Unmute
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
             <div className="settings-section">
               <h3>Appearance</h3>
               <div className="setting-item">
@@ -513,6 +899,95 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
               </div>
             </div>
 
+            <div className="settings-section">
+              <h3>Import &amp; Export</h3>
+              {accounts.length > 1 && (
+                <div className="setting-item">
+                  <label>Account</label>
+                  <select
+                    value={transferAccountId}
+                    onChange={(e) => {
+                      setTransferAccountId(e.target.value);
+                      setImportPreview(null);
+                    }}
+                  >
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="setting-help">
+                Share filters and app settings as a file, e.g. to set up a teammate. Tokens are never included.
+              </div>
+
+              {importPreview ? (
+                <div className="import-preview">
+                  <div className="import-preview-source">
+                    Exported {importPreview.exportedAt ? new Date(importPreview.exportedAt).toLocaleString() : ''}
+                    {importPreview.host && ` from ${importPreview.host}`}
+                  </div>
+                  {importPreview.conflicts.length === 0 ? (
+                    <div className="setting-help">The file matches your current settings</div>
+                  ) : (
+                    <ul className="import-conflicts">
+                      {importPreview.conflicts.map(conflict => (
+                        <li key={conflict.setting} className="import-conflict">
+                          <span className="import-conflict-setting">
+                            {IMPORT_SETTING_LABELS[conflict.setting] || conflict.setting}
+                          </span>
+                          <span className="import-conflict-values">
+                            {conflict.current} → {conflict.imported}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {importPreview.warnings.map(warning => (
+                    <div key={warning} className="setting-help error">{warning}</div>
+                  ))}
+                  <div className="import-preview-actions">
+                    <button
+                      className="btn btn-primary btn-sm"
+                      onClick={handleApplyImport}
+                      disabled={isTransferring || importPreview.conflicts.length === 0}
+                    >
+                      Apply
+                    </button>
+                    <button
+                      className="btn btn-secondary btn-sm"
+                      onClick={() => setImportPreview(null)}
+                      disabled={isTransferring}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="import-preview-actions">
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={handleExportSettings}
+                    disabled={isTransferring}
+                  >
+                    Export Settings...
+                  </button>
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={handleImportSettings}
+                    disabled={isTransferring}
+                  >
+                    Import Settings...
+                  </button>
+                </div>
+              )}
+              {transferMessage && (
+                <div className={`setting-help ${transferMessage.error ? 'error' : 'success'}`}>
+                  {transferMessage.text}
+                </div>
+              )}
+            </div>
+
             {debugMode && (
               <div className="settings-section debug-section">
                 <h3>🔧 Debug Tools</h3>
@@ -589,6 +1064,7 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
           </div>
 
           <div className="modal-footer">
+            {saveError && <div className="error-message">{saveError}</div>}
             <button 
               className="btn btn-secondary"
               onClick={handleCancel}
@@ -601,7 +1077,7 @@ export function SettingsModal({ isOpen, onClose, onSettingsChange, onDebugRefres
               onClick={handleSave}
               disabled={isSaving || (showPATInput && !newPAT) || (showPATInput && !!patError)}
             >
-              {isSaving ? 'Saving...' : 'Save Settings'}
+              {isSaving ? (newPAT ? 'Checking token...' : 'Saving...') : 'Save Settings'}
             </button>
           </div>
         </motion.div>
@@ -4,7 +4,7 @@ import { WelcomeStep } from './setup/WelcomeStep';
 import { PATStep } from './setup/PATStep';
 import { FilterStep } from './setup/FilterStep';
 import { CompletionStep } from './setup/CompletionStep';
-import { GitHubService } from '../services/githubService';
+import { DEFAULT_GITHUB_HOST } from '../services/githubHosts';
 import './SetupWizard.css';
 
 export type WizardStep = 'welcome' | 'pat' | 'filter' | 'completion';
@@ -16,6 +16,7 @@ interface SetupWizardProps {
 export function SetupWizard({ onComplete }: SetupWizardProps) {
   const [currentStep, setCurrentStep] = useState<WizardStep>('welcome');
   const [pat, setPat] = useState('');
+  const [host, setHost] = useState(DEFAULT_GITHUB_HOST);
   const [selectedOrgs, setSelectedOrgs] = useState<string[]>([]);
   const [selectedRepos, setSelectedRepos] = useState<string[]>([]);
   const [isSaving, setIsSaving] = useState(false);
@@ -28,7 +29,6 @@ export function SetupWizard({ onComplete }: SetupWizardProps) {
     isChecking: false
   });
 
-  const githubService = new GitHubService();
 
   const steps: { key: WizardStep; title: string }[] = [
     { key: 'welcome', title: 'Welcome' },
@@ -61,7 +61,7 @@ export function SetupWizard({ onComplete }: SetupWizardProps) {
             throw new Error('Electron API not available');
           }
           
-          const success = await window.electronAPI.savePAT(pat);
+          const success = await window.electronAPI.savePAT(pat, undefined, host);
           console.log('PAT save result:', success);
           if (success) {
             setCurrentStep('filter');
@@ -146,15 +146,23 @@ export function SetupWizard({ onComplete }: SetupWizardProps) {
 
   const handlePatChange = (newPat: string) => {
     setPat(newPat);
-    
+    validatePat(newPat, host);
+  };
+
+  const handleHostChange = (newHost: string) => {
+    setHost(newHost);
+    validatePat(pat, newHost);
+  };
+
+  const validatePat = (newPat: string, newHost: string) => {
     // Update validation state based on PAT length
     if (newPat.length < 40) {
       setPatValidation({ isValid: false, isChecking: false });
     } else {
       setPatValidation({ isValid: false, isChecking: true });
       
-      // Validate the token
-      githubService.validateToken(newPat).then(result => {
+      // Validate the token against the chosen host
+      window.electronAPI.validateToken(newPat, newHost).then(result => {
         setPatValidation({ 
           isValid: result.valid, 
           isChecking: false,
@@ -175,6 +183,9 @@ export function SetupWizard({ onComplete }: SetupWizardProps) {
           <PATStep
             pat={pat}
             onPatChange={handlePatChange}
+            host={host}
+            onHostChange={handleHostChange}
+            onDeviceFlowComplete={() => setCurrentStep('filter')}
           />
         );
       case 'filter':
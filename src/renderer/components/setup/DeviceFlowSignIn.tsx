@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import { DeviceCodeInfo } from '../../types/notifications';
+
+interface DeviceFlowSignInProps {
+  // github.com or a GitHub Enterprise Server origin to sign in to
+  host: string;
+  // Account the token is stored for; the active or first account when omitted
+  accountId?: string;
+  onSignedIn: () => void;
+}
+
+export function DeviceFlowSignIn({ host, accountId, onSignedIn }: DeviceFlowSignInProps) {
+  const [available, setAvailable] = useState(false);
+  const [status, setStatus] = useState<'idle' | 'starting' | 'waiting'>('idle');
+  const [codeInfo, setCodeInfo] = useState<DeviceCodeInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    window.electronAPI.isDeviceFlowAvailable().then(setAvailable).catch(() => setAvailable(false));
+  }, []);
+
+  // Leaving the step abandons a sign-in that is still waiting for approval
+  useEffect(() => {
+    if (status !== 'waiting') return;
+    return () => {
+      window.electronAPI.cancelDeviceFlow();
+    };
+  }, [status]);
+
+  const handleSignIn = async () => {
+    setStatus('starting');
+    setError(null);
+    setCopied(false);
+
+    const started = await window.electronAPI.startDeviceFlow(host);
+    if (!started.success || !started.info) {
+      setError(started.error || 'Failed to start sign-in');
+      setStatus('idle');
+      return;
+    }
+
+    setCodeInfo(started.info);
+    setStatus('waiting');
+    await window.electronAPI.openInBrowser(started.info.verificationUri);
+
+    // Resolves once the code is approved, denied, expired or the sign-in is cancelled
+    const result = await window.electronAPI.completeDeviceFlow(accountId, host);
+    if (result.success) {
+      onSignedIn();
+      return;
+    }
+
+    setCodeInfo(null);
+    setStatus('idle');
+    if (result.code !== 'cancelled') {
+      setError(result.error || 'Sign-in failed');
+    }
+  };
+
+  const handleCancel = async () => {
+    await window.electronAPI.cancelDeviceFlow();
+    setCodeInfo(null);
+    setStatus('idle');
+  };
+
+  const handleCopyCode = async () => {
+    if (!codeInfo) return;
+    try {
+      await navigator.clipboard.writeText(codeInfo.userCode);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  if (!available) {
+    return null;
+  }
+
+  return (
+    <div className="device-flow">
+      {status === 'waiting' && codeInfo ? (
+        <div className="device-flow-code">
+          <p>Enter this code on GitHub to authorize OctoBar:</p>
+          <button
+            type="button"
+            className="device-code"
+            onClick={handleCopyCode}
+            title="Copy code"
+          >
+            {codeInfo.userCode}
+          </button>
+          <span className="device-flow-hint">
+            {copied ? '✓ Copied' : `Waiting for approval at ${codeInfo.verificationUri}...`}
+          </span>
+          <div className="device-flow-actions">
+            <button
+              type="button"
+              className="btn btn-secondary btn-sm"
+              onClick={() => window.electronAPI.openInBrowser(codeInfo.verificationUri)}
+            >
+              Open GitHub
+            </button>
+            <button
+              type="button"
+              className="btn btn-secondary btn-sm"
+              onClick={handleCancel}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          className="btn btn-primary"
+          onClick={handleSignIn}
+          disabled={status === 'starting'}
+        >
+          {status === 'starting' ? 'Starting...' : 'Sign in with GitHub'}
+        </button>
+      )}
+      {error && <div className="invalid">✗ {error}</div>}
+      <div className="device-flow-divider">or paste a Personal Access Token</div>
+    </div>
+  );
+}
@@ -1,25 +1,29 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { GitHubService } from '../../services/githubService';
+import type { GitHubOrganization, GitHubRepository, SsoBlockedOrganization } from '../../services/githubService';
 
 interface FilterStepProps {
+  // Account whose organizations and repositories are listed; the active or first account when omitted
+  accountId?: string;
   selectedOrgs: string[];
   selectedRepos: string[];
   onOrgsChange: (orgs: string[]) => void;
   onReposChange: (repos: string[]) => void;
 }
 
-export function FilterStep({ selectedOrgs, selectedRepos, onOrgsChange, onReposChange }: FilterStepProps) {
-  const [orgs, setOrgs] = useState<any[]>([]);
-  const [repos, setRepos] = useState<any[]>([]);
+export function FilterStep({ accountId, selectedOrgs, selectedRepos, onOrgsChange, onReposChange }: FilterStepProps) {
+  const [orgs, setOrgs] = useState<GitHubOrganization[]>([]);
+  const [repos, setRepos] = useState<GitHubRepository[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Organizations hiding their data until the token is authorized for SAML SSO
+  const [ssoOrgs, setSsoOrgs] = useState<SsoBlockedOrganization[]>([]);
   const [orgSearchTerm, setOrgSearchTerm] = useState('');
   const [repoSearchTerm, setRepoSearchTerm] = useState('');
 
   useEffect(() => {
     loadGitHubData();
-  }, []);
+  }, [accountId]);
 
   const loadGitHubData = async () => {
     try {
@@ -27,39 +31,23 @@ export function FilterStep({ selectedOrgs, selectedRepos, onOrgsChange, onReposC
       setError(null);
 
       // Check if electronAPI is available
-      if (!window.electronAPI || !window.electronAPI.getPAT) {
+      if (!window.electronAPI || !window.electronAPI.getFilterOptions) {
         setError('Electron API not available. Please restart the app and try again.');
         setLoading(false);
         return;
       }
 
-      // Get the stored PAT from the main process
-      let pat: string | null = null;
-      try {
-        pat = await window.electronAPI.getPAT();
-      } catch (error) {
-        console.error('Failed to get PAT from main process:', error);
-        setError('Failed to retrieve stored token. Please go back and re-enter your token.');
-        setLoading(false);
-        return;
-      }
-
-      if (!pat) {
-        setError('No GitHub token found. Please go back and enter a valid token.');
-        setLoading(false);
+      // The main process loads both lists with the stored token
+      const options = await window.electronAPI.getFilterOptions(accountId);
+      if (!options.success) {
+        console.error('Failed to load GitHub data:', options.error);
+        setError('Failed to load GitHub data. Please check your token and try again.');
         return;
       }
 
-      const githubService = new GitHubService(pat);
-
-      // Load organizations and repositories in parallel
-      const [orgsData, reposData] = await Promise.all([
-        githubService.getUserOrganizations(),
-        githubService.getUserRepositories()
-      ]);
-
-      setOrgs(orgsData);
-      setRepos(reposData);
+      setOrgs(options.organizations);
+      setRepos(options.repositories);
+      setSsoOrgs(options.ssoBlockedOrganizations);
     } catch (error) {
       console.error('Failed to load GitHub data:', error);
       setError('Failed to load GitHub data. Please check your token and try again.');
@@ -154,6 +142,35 @@ export function FilterStep({ selectedOrgs, selectedRepos, onOrgsChange, onReposC
           </p>
         </div>
 
+        {ssoOrgs.length > 0 && (
+          <div className="sso-notice">
+            <p>
+              These organizations enforce SAML SSO and hide their repositories and notifications until you authorize your token:
+            </p>
+            <ul className="sso-org-list">
+              {ssoOrgs.map(org => (
+                <li key={org.authorizationUrl}>
+                  <span>{org.login ?? `Organization ${org.id}`}</span>
+                  <button
+                    type="button"
+                    className="btn btn-small btn-secondary"
+                    onClick={() => window.electronAPI.openInBrowser(org.authorizationUrl)}
+                  >
+                    Authorize
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              type="button"
+              className="btn btn-link"
+              onClick={loadGitHubData}
+            >
+              Reload after authorizing
+            </button>
+          </div>
+        )}
+
         {/* Organizations Section */}
         <div className="filter-section">
           <div className="section-header">
@@ -1,10 +1,21 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { GitHubService } from '../../services/githubService';
+import type { TokenCapability, TokenKind } from '../../services/githubService';
+import { DEFAULT_GITHUB_HOST, isGitHubDotCom, normalizeHost } from '../../services/githubHosts';
+import { DeviceFlowSignIn } from './DeviceFlowSignIn';
 
 interface PATStepProps {
   pat: string;
   onPatChange: (pat: string) => void;
+  // github.com or a GitHub Enterprise Server origin the token belongs to
+  host?: string;
+  onHostChange?: (host: string) => void;
+  // Account a device flow sign-in is stored for; the active or first account when omitted
+  accountId?: string;
+  // Offers OAuth device flow sign-in as an alternative to pasting a token
+  onDeviceFlowComplete?: () => void;
+  // Whether the token currently entered has been checked and is valid
+  onValidationChange?: (isValid: boolean) => void;
 }
 
 interface ValidationResult {
@@ -18,29 +29,43 @@ interface ValidationResult {
   };
   hasNotificationsAccess?: boolean;
   scopes?: string[];
+  tokenKind?: TokenKind;
+  capabilities?: TokenCapability[];
+  ssoAuthorizationUrl?: string;
 }
 
-export function PATStep({ pat, onPatChange }: PATStepProps) {
+const TOKEN_KIND_LABELS: Record<TokenKind, string> = {
+  'classic': 'classic token',
+  'fine-grained': 'fine-grained token',
+  'oauth': 'OAuth token',
+  'unknown': 'token'
+};
+
+export function PATStep({ pat, onPatChange, host = DEFAULT_GITHUB_HOST, onHostChange, accountId, onDeviceFlowComplete, onValidationChange }: PATStepProps) {
   const [showPAT, setShowPAT] = useState(false);
+  const [useEnterprise, setUseEnterprise] = useState(!isGitHubDotCom(host));
+  const [hostInput, setHostInput] = useState(isGitHubDotCom(host) ? '' : host);
   const [validation, setValidation] = useState<ValidationResult>({
     isValid: false,
     isChecking: false
   });
 
-  const githubService = new GitHubService();
-
-  // Debounced validation effect
+  // Debounced validation effect. A result for a token that has since changed is dropped.
   useEffect(() => {
     if (pat.length < 40) {
       setValidation({ isValid: false, isChecking: false });
       return;
     }
 
+    let stale = false;
+    setValidation({ isValid: false, isChecking: true });
+
     const timeoutId = setTimeout(async () => {
-      setValidation(prev => ({ ...prev, isChecking: true }));
-      
       try {
-        const result = await githubService.validateToken(pat);
+        const result = await window.electronAPI.validateToken(pat, host);
+        if (stale) {
+          return;
+        }
         
         if (result.valid && result.user) {
           setValidation({
@@ -52,16 +77,24 @@ export function PATStep({ pat, onPatChange }: PATStepProps) {
               avatar_url: result.user.avatar_url
             },
             hasNotificationsAccess: result.hasNotificationsAccess,
-            scopes: result.scopes
+            scopes: result.scopes,
+            tokenKind: result.tokenKind,
+            capabilities: result.capabilities
           });
         } else {
           setValidation({
             isValid: false,
             isChecking: false,
-            error: result.error
+            error: result.error,
+            tokenKind: result.tokenKind,
+            capabilities: result.capabilities,
+            ssoAuthorizationUrl: result.ssoAuthorizationUrl
           });
         }
       } catch (error) {
+        if (stale) {
+          return;
+        }
         setValidation({
           isValid: false,
           isChecking: false,
@@ -70,13 +103,55 @@ export function PATStep({ pat, onPatChange }: PATStepProps) {
       }
     }, 1000); // 1 second debounce
 
-    return () => clearTimeout(timeoutId);
-  }, [pat]);
+    return () => {
+      stale = true;
+      clearTimeout(timeoutId);
+    };
+  }, [pat, host]);
+
+  useEffect(() => {
+    onValidationChange?.(validation.isValid && !validation.isChecking);
+  }, [validation]);
 
   const handlePATChange = (value: string) => {
     onPatChange(value);
   };
 
+  const handleEnterpriseToggle = (enabled: boolean) => {
+    setUseEnterprise(enabled);
+    onHostChange?.(enabled && hostInput ? normalizeHost(hostInput) : DEFAULT_GITHUB_HOST);
+  };
+
+  const handleHostInputChange = (value: string) => {
+    setHostInput(value);
+    onHostChange?.(normalizeHost(value));
+  };
+
+  const renderCapabilities = () => {
+    if (!validation.capabilities) {
+      return null;
+    }
+
+    return (
+      <ul className="capability-list">
+        {validation.capabilities.map(capability => (
+          <li
+            key={capability.id}
+            className={`capability ${capability.available ? 'available' : capability.required ? 'missing' : 'limited'}`}
+          >
+            <span className="capability-icon">
+              {capability.available ? '✓' : capability.required ? '✗' : '⚠️'}
+            </span>
+            <span className="capability-label">{capability.label}</span>
+            <span className="capability-feature">
+              {capability.available ? capability.feature : `${capability.feature} won't work`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
   const openGitHubDocs = () => {
     window.open('https://docs.github.com/en/authentication/keeping-your-account-and-data-secure/creating-a-personal-access-token', '_blank');
   };
@@ -96,9 +171,36 @@ export function PATStep({ pat, onPatChange }: PATStepProps) {
           </p>
         </div>
 
+        {onHostChange && (
+          <div className="pat-input-section">
+            <label className="input-label">
+              <input
+                type="checkbox"
+                checked={useEnterprise}
+                onChange={(e) => handleEnterpriseToggle(e.target.checked)}
+              />
+              {' '}Use GitHub Enterprise Server
+            </label>
+            {useEnterprise && (
+              <input
+                type="text"
+                value={hostInput}
+                onChange={(e) => handleHostInputChange(e.target.value)}
+                placeholder="https://github.example.com"
+                className="pat-input"
+                aria-label="GitHub Enterprise Server URL"
+              />
+            )}
+          </div>
+        )}
+
+        {onDeviceFlowComplete && (
+          <DeviceFlowSignIn host={host} accountId={accountId} onSignedIn={onDeviceFlowComplete} />
+        )}
+
         <div className="pat-input-section">
           <label htmlFor="pat-input" className="input-label">
-            Personal Access Token
+            Personal Access Token{!isGitHubDotCom(host) && ` for ${new URL(host).hostname}`}
           </label>
           
           <div className="pat-input-wrapper">
@@ -128,7 +230,7 @@ export function PATStep({ pat, onPatChange }: PATStepProps) {
                   <span className="checking">🔄 Validating token...</span>
                 ) : validation.isValid ? (
                   <div className="valid-token">
-                    <span className="valid">✓ Valid token</span>
+                    <span className="valid">✓ Valid {TOKEN_KIND_LABELS[validation.tokenKind || 'unknown']}</span>
                     {validation.user && (
                       <div className="user-info">
                         <img 
@@ -140,38 +242,14 @@ export function PATStep({ pat, onPatChange }: PATStepProps) {
                         <span className="user-login">@{validation.user.login}</span>
                       </div>
                     )}
-                    {validation.hasNotificationsAccess && (
-                      <div className="permissions-info">
-                        <span className="permission-ok">✓ Notifications access confirmed</span>
-                        {validation.scopes && validation.scopes.length > 0 && (
-                          <div className="scopes-info">
-                            <span className="scopes-label">Token scopes:</span>
-                            <div className="scopes-list">
-                              {validation.scopes.map((scope, index) => (
-                                <span key={index} className="scope-tag">{scope}</span>
-                              ))}
-                            </div>
-                          </div>
-                        )}
-                      </div>
-                    )}
-                    {!validation.hasNotificationsAccess && (
-                      <div className="permissions-warning">
-                        <span className="permission-warning">⚠️ Limited access</span>
-                        <p className="permission-details">
-                          {validation.error || 'Token may not have full notifications access'}
-                        </p>
-                        <div className="scopes-info">
-                          <span className="scopes-label">Current scopes:</span>
-                          <div className="scopes-list">
-                            {validation.scopes && validation.scopes.length > 0 ? (
-                              validation.scopes.map((scope, index) => (
-                                <span key={index} className="scope-tag">{scope}</span>
-                              ))
-                            ) : (
-                              <span className="scope-tag no-scopes">No scopes detected</span>
-                            )}
-                          </div>
+                    {renderCapabilities()}
+                    {validation.scopes && validation.scopes.length > 0 && (
+                      <div className="scopes-info">
+                        <span className="scopes-label">Token scopes:</span>
+                        <div className="scopes-list">
+                          {validation.scopes.map((scope, index) => (
+                            <span key={index} className="scope-tag">{scope}</span>
+                          ))}
                         </div>
                       </div>
                     )}
@@ -179,6 +257,16 @@ export function PATStep({ pat, onPatChange }: PATStepProps) {
                 ) : (
                   <div className="invalid-token">
                     <span className="invalid">✗ {validation.error || 'Invalid token'}</span>
+                    {validation.ssoAuthorizationUrl && (
+                      <button
+                        type="button"
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => window.electronAPI.openInBrowser(validation.ssoAuthorizationUrl!)}
+                      >
+                        Authorize SSO
+                      </button>
+                    )}
+                    {renderCapabilities()}
                   </div>
                 )}
               </div>
@@ -208,6 +296,7 @@ export function PATStep({ pat, onPatChange }: PATStepProps) {
             </ul>
             <p style={{ fontSize: '11px', color: '#64748b', marginTop: '8px', marginBottom: '0' }}>
               <strong>Note:</strong> Your token must have at least one of these scope combinations to access notifications.
+              Fine-grained tokens are checked feature by feature once entered.
             </p>
           </div>
         </div>
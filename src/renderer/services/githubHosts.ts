@@ -0,0 +1,2 @@
+// Host handling is shared with the main process so API calls and links agree on the account's server
+export { DEFAULT_GITHUB_HOST, normalizeHost, isGitHubDotCom, getWebBaseUrl } from '../../main/githubHosts';
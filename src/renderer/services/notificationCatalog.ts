@@ -0,0 +1,2 @@
+// The subject type and reason catalog is shared with the main process (tray tooltip, filtering)
+export { SUBJECT_TYPES, REASONS, getSubjectTypeInfo, getReasonInfo } from '../../main/notificationCatalog';
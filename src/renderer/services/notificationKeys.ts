@@ -0,0 +1,2 @@
+// Keys are shared with the main process, which tracks and dismisses notifications by them
+export { getNotificationKey, getMutedThreadKey } from '../../main/notificationKeys';
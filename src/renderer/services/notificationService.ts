@@ -110,8 +110,7 @@ class NotificationService {
       console.log('🔔 Using Electron notification API');
       try {
         const result = await window.electronAPI.showNotification(data.title, data.body, {
-          tag: data.tag || 'octobar-notification',
-          data: data.data
+          tag: data.tag || 'octobar-notification'
         });
         console.log('🔔 Electron notification result:', result);
         return result;
@@ -313,8 +312,7 @@ class NotificationService {
       console.log('🔧 Using Electron notification API for force notification');
       try {
         const result = await window.electronAPI.showNotification(data.title, data.body, {
-          tag: data.tag || 'octobar-debug',
-          data: data.data
+          tag: data.tag || 'octobar-debug'
         });
         console.log('🔧 Electron force notification result:', result);
         return result;
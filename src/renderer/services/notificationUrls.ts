@@ -0,0 +1,2 @@
+// URL building is shared with the main process, which resolves the exact page when a notification is opened
+export { buildNotificationUrl } from '../../main/notificationUrls';
@@ -1,3 +1,6 @@
+import { NotificationSubjectType } from '../../main/notificationCatalog';
+import type { SubjectDetails } from '../../main/githubService';
+
 export interface GitHubUser {
   id: number;
   login: string;
@@ -18,14 +21,15 @@ export interface GitHubSubject {
   title: string;
   url: string;
   latest_comment_url: string | null;
-  type: 'Issue' | 'PullRequest' | 'Commit' | 'Release' | 'Discussion';
+  // Raw value from the API; see getSubjectTypeInfo for the known ones
+  type: string;
 }
 
 export interface GitHubNotification {
   id: string;
   repository: GitHubRepository;
   subject: GitHubSubject;
-  reason: 'assign' | 'author' | 'comment' | 'invitation' | 'manual' | 'mention' | 'push' | 'review_requested' | 'security_alert' | 'state_change' | 'subscribed' | 'team_mention';
+  reason: string;
   unread: boolean;
   updated_at: string;
   last_read_at: string | null;
@@ -35,29 +39,42 @@ export interface GitHubNotification {
 
 // App-specific notification interface for display
 export interface AppNotification {
+  // Thread ID on the account's host
   id: string;
+  // Unique across accounts, see getNotificationKey
+  key: string;
   title: string;
-  type: 'Issue' | 'PullRequest' | 'Commit' | 'Release' | 'Discussion';
+  type: NotificationSubjectType;
   repository: string;
   updatedAt: string;
   unread: boolean;
   url: string;
   reason: string;
+  details?: SubjectDetails;
+  accountId: string;
 }
 
 // Simplified notification group for display
 export interface NotificationGroup {
   repository: string;
+  accountId: string;
   notifications: AppNotification[];
 }
 
-export type FilterType = 'all' | 'mentions' | 'reviews' | 'assignments' | 'comments' | 'security' | 'other';
+// Main-process types the popup works with, imported as types only
+export type { SubjectDetails, CheckStatus, RateLimitInfo } from '../../main/githubService';
+export type { AccountProfile, MutedThread, OpenInBrowserAction } from '../../main/settingsStorage';
+export type { AccountSummary, NotificationPollState } from '../../main/notificationPoller';
+export type { DeviceCodeInfo } from '../../main/deviceFlow';
 
-// Notification subject types (what the notification is about)
-export type NotificationSubjectType = 'Issue' | 'PullRequest' | 'Commit' | 'Release' | 'Discussion';
+// Results of calls into the main process, shared with its IPC contract
+export type { DeviceFlowResult, TokenRotationResult, GitHubActionResult, FilterOptions, SettingsExportResult, SettingsImportPreviewResult } from '../../main/ipcContract';
+export type { SettingsImportPreview, SettingsConflict } from '../../main/settingsBundle';
+
+export type FilterType = 'all' | 'mentions' | 'reviews' | 'assignments' | 'comments' | 'security' | 'other';
 
-// Notification reasons (why you got the notification)
-export type NotificationReason = 'assign' | 'author' | 'comment' | 'invitation' | 'manual' | 'mention' | 'push' | 'review_requested' | 'security_alert' | 'state_change' | 'subscribed' | 'team_mention';
+// Notification subject types (what the notification is about) and reasons (why you got it)
+export type { NotificationSubjectType, NotificationReason } from '../../main/notificationCatalog';
 
 export interface NotificationFilters {
   type: FilterType;
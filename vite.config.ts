@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -11,5 +12,10 @@ export default defineConfig({
   },
   server: {
     port: 3001
+  },
+  test: {
+    // Unit tests sit next to the main-process modules they cover
+    root: '.',
+    include: ['src/**/*.test.ts']
   }
 });